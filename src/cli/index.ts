@@ -5,20 +5,406 @@
  */
 
 import { Command } from 'commander';
-import { readFileSync } from 'fs';
-import { calculateCost, compareCosts } from '../core/cost-calculator.js';
-import { formatAnalysis, formatComparison, formatWarning } from '../ui/formatter.js';
-import { getAllModels, initializePricing } from '../data/pricing.js';
+import type { Server } from 'http';
+import { existsSync, readFileSync } from 'fs';
+import { relative } from 'path';
+import { StringDecoder } from 'string_decoder';
+import {
+  DEFAULT_OUTPUT_TOKENS,
+  calculateCost,
+  compareSelectedModels,
+  formatCost,
+  type CostEstimate,
+  type CostInput,
+  type CostOptions,
+  type ModelSelection,
+} from '../core/cost-calculator.js';
+import { parseChatRequest } from '../core/messages.js';
+import { useTokenizerFile } from '../core/hf-tokenizer.js';
+import { calibrateTokenizer, freeTokenizers, getTokenBoundaries } from '../core/tokenizer.js';
+import { loadCalibrationSamples } from '../core/estimator.js';
+import { loadImage } from '../core/images.js';
+import { loadResponseSchema, loadToolDefinitions } from '../core/tools.js';
+import { findFiles, scanCosts } from '../core/scanner.js';
+import { watchFiles } from '../core/watcher.js';
+import { EXPLAIN_MODES, explainTokens } from '../core/explain.js';
+import { estimateTemplate, loadDataset } from '../core/template.js';
+import { projectSpend } from '../core/projection.js';
+import { loadUsageEntries, priceUsage, summarizeUsage } from '../core/usage.js';
+import { createTokenServer, warmTokenizers } from '../server/index.js';
+import { createCostGuardProxy } from '../server/proxy.js';
+import { loadConfig, type AiTokensConfig } from '../data/config.js';
+import {
+  formatAnalysis,
+  formatBudgetStatus,
+  formatComparison,
+  formatExplain,
+  formatProjection,
+  formatScan,
+  formatSimple,
+  formatTemplate,
+  formatTokenBoundaries,
+  formatUsage,
+  formatWarning,
+  formatWatchDelta,
+} from '../ui/formatter.js';
+import {
+  OUTPUT_FORMATS,
+  formatComparisonOutput,
+  formatEstimateOutput,
+  formatExplainOutput,
+  formatProjectionOutput,
+  formatModelsOutput,
+  formatScanOutput,
+  formatTemplateOutput,
+  formatTokensOutput,
+  formatUsageOutput,
+  type OutputFormat,
+} from '../ui/output.js';
+import {
+  getAllModelEntries,
+  getAllModels,
+  getModelPricing,
+  initializePricing,
+  MODEL_CAPABILITIES,
+  MODEL_PRICING,
+  REASONING_EFFORT,
+  registerModelAliases,
+  type ModelCapability,
+  type ModelPricing,
+} from '../data/pricing.js';
+import { getPricingCachePath, getPricingUrl, readPricingCache, refreshPricing } from '../data/pricing-fetcher.js';
+import {
+  BUDGET_PERIODS,
+  getBudgetPath,
+  getBudgetStatus,
+  readLedger,
+  recordSpend,
+  setBudget,
+  type BudgetPeriod,
+  type LedgerEntry,
+} from '../data/budget.js';
 
 const program = new Command();
 
-// Initialize pricing data from community sources
-await initializePricing();
+// Load project config (.ai-tokensrc); tokenizers and calibration are applied once pricing is loaded
+let config: AiTokensConfig = {};
+try {
+  config = loadConfig()?.config || {};
+  registerModelAliases(config.aliases || {});
+} catch (error) {
+  console.error('Error:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
+/**
+ * Read stdin in chunks (handles pipes and multi-hundred-MB inputs)
+ */
+async function readStdin(): Promise<string> {
+  const decoder = new StringDecoder('utf-8');
+  const chunks: string[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(decoder.write(chunk as Buffer));
+  }
+  chunks.push(decoder.end());
+  return chunks.join('');
+}
+
+/**
+ * Whether a missing input looks like a file path rather than prompt text
+ * Only a path separator counts: "v1.2", "Node.js" or a missing "README.md" are prompts.
+ */
+function looksLikePath(input: string): boolean {
+  return !/\s/.test(input) && /[\\/]/.test(input);
+}
+
+/**
+ * Read command input: stdin (piped, or '-'), a file path, or direct text
+ */
+async function readInput(input: string | undefined, chat: boolean = false): Promise<CostInput> {
+  let text: string;
+  if (input === undefined || input === '-') {
+    if (input === undefined && process.stdin.isTTY) {
+      throw new Error('No input: pass text, a file path, or pipe to stdin');
+    }
+    text = await readStdin();
+  } else if (existsSync(input)) {
+    text = readFileSync(input, 'utf-8');
+  } else if (looksLikePath(input)) {
+    throw new Error(`File not found: ${input}`);
+  } else {
+    text = input; // Direct text
+  }
+
+  return chat ? parseChatRequest(text) : text;
+}
+
+/**
+ * Re-price input files on every save (--watch), showing the change since the last save
+ * and since the session started; pricing and tokenizers stay loaded between runs
+ */
+async function watchInput(
+  input: string | undefined,
+  chat: boolean,
+  render: (text: CostInput) => { estimate: CostEstimate; output: string },
+  live: boolean
+): Promise<void> {
+  if (input === undefined || input === '-') {
+    throw new Error('--watch needs a file, directory or glob to watch');
+  }
+
+  const read = (files: string[]): CostInput => {
+    if (files.length === 0) {
+      throw new Error(`No files match ${input}`);
+    }
+    if (chat) {
+      if (files.length !== 1) {
+        throw new Error('--chat --watch needs a single request file');
+      }
+      return parseChatRequest(readFileSync(files[0], 'utf-8'));
+    }
+    // Template directories and file sets are priced as one prompt, in path order
+    return files.map((file) => readFileSync(file, 'utf-8')).join('\n\n');
+  };
+
+  let start: { tokens: number; cost: number } | null = null;
+  let last: { tokens: number; cost: number } | null = null;
+  const update = (files: string[], changed: string[]) => {
+    try {
+      const { estimate, output } = render(read(files));
+      const current = { tokens: estimate.inputTokens, cost: estimate.totalCost };
+      if (live && process.stdout.isTTY) {
+        console.clear();
+      }
+      console.log(output);
+      if (live) {
+        console.log(formatWatchDelta(current, last, start || current, changed.map((file) => relative(process.cwd(), file))));
+      }
+      last = current;
+      start = start || current;
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const watcher = watchFiles([input], update, { ignore: config.ignore });
+  update(watcher.files, []);
+
+  await new Promise<void>((resolve) => {
+    const stop = () => {
+      watcher.close();
+      resolve();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
+
+/**
+ * Parse --cached-prefix: a token count or a file holding the prefix text
+ */
+function parseCachedPrefix(value?: string): CostOptions['cachedPrefix'] {
+  if (value === undefined) return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value);
+
+  try {
+    return readFileSync(value, 'utf-8');
+  } catch {
+    throw new Error(`--cached-prefix must be a token count or a readable file: ${value}`);
+  }
+}
+
+/**
+ * Parse --reasoning-effort / --reasoning-tokens
+ */
+function parseReasoningOptions(options: any): Pick<CostOptions, 'reasoningEffort' | 'reasoningTokens'> {
+  if (options.reasoningEffort && !(options.reasoningEffort in REASONING_EFFORT)) {
+    throw new Error(`--reasoning-effort must be one of: ${Object.keys(REASONING_EFFORT).join(', ')}`);
+  }
+
+  return {
+    reasoningEffort: options.reasoningEffort,
+    reasoningTokens: options.reasoningTokens !== undefined ? parseInt(options.reasoningTokens) : undefined,
+  };
+}
+
+/**
+ * Parse repeated --image paths and --image-detail
+ */
+function parseImageOptions(options: any): Pick<CostOptions, 'images' | 'imageDetail'> {
+  if (options.imageDetail && !['low', 'high'].includes(options.imageDetail)) {
+    throw new Error('--image-detail must be one of: low, high');
+  }
+
+  return {
+    images: (options.image as string[]).map((path) => loadImage(path)),
+    imageDetail: options.imageDetail,
+  };
+}
+
+/**
+ * Parse --tools / --response-schema
+ */
+function parseToolOptions(options: any): Pick<CostOptions, 'tools' | 'responseSchema'> {
+  return {
+    tools: options.tools ? loadToolDefinitions(options.tools) : undefined,
+    responseSchema: options.responseSchema ? loadResponseSchema(options.responseSchema) : undefined,
+  };
+}
+
+/**
+ * Resolve the global --format option
+ */
+function getOutputFormat(): OutputFormat {
+  const format = program.opts().format;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`--format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format;
+}
+
+/**
+ * Record spend against the budget, warning when it pushes the current period past the limit
+ * (hard budgets refuse estimates; actual spend has already happened and is always recorded)
+ */
+function chargeBudget(entries: LedgerEntry[]): void {
+  const status = getBudgetStatus(readLedger());
+  const cost = entries
+    .filter((entry) => !status?.periodStart || new Date(entry.at) >= status.periodStart)
+    .reduce((sum, entry) => sum + entry.cost, 0);
+  if (status && cost > 0 && status.spent + cost > status.budget.limit) {
+    const message =
+      `${formatCost(cost)} would bring ${status.budget.period} spend to ${formatCost(status.spent + cost)}, ` +
+      `over the ${formatCost(status.budget.limit)} budget`;
+    if (status.budget.hard && entries.every((entry) => entry.kind === 'estimate')) {
+      throw new Error(`${message} (not recorded)`);
+    }
+    console.error(`Warning: ${message}`);
+  }
+  recordSpend(entries);
+}
+
+/**
+ * Parse a duration like 30m, 24h or 7d into milliseconds
+ */
+function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(s|m|h|d)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (use e.g. 30m, 24h, 7d)`);
+  }
+  const unit = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }[match[2] as 's' | 'm' | 'h' | 'd'];
+  return parseFloat(match[1]) * unit;
+}
+
+/**
+ * Parse a USD amount option (e.g. 0.50 or $0.50)
+ */
+function parseAmount(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const amount = parseFloat(value.replace(/^\$/, ''));
+  if (!(amount >= 0)) {
+    throw new Error(`${flag} must be a non-negative amount`);
+  }
+  return amount;
+}
+
+/**
+ * Serve an HTTP server until SIGINT/SIGTERM
+ */
+function runServer(server: Server, port: number, host: string, onListening: (port: number) => void): Promise<void> {
+  return new Promise<void>((resolve) => {
+    server.on('error', (error) => {
+      console.error('Error:', error.message);
+      process.exit(1);
+    });
+    server.on('close', resolve);
+    server.listen(port, host, () => {
+      const address = server.address();
+      onListening(address && typeof address === 'object' ? address.port : port);
+    });
+    const stop = () => server.close();
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
+
+/**
+ * Parse --port
+ */
+function parsePort(value: string): number {
+  const port = parseInt(value);
+  if (!(port >= 0 && port < 65536)) {
+    throw new Error('--port must be between 0 and 65535');
+  }
+  return port;
+}
+
+/**
+ * Parse compare's model selection options
+ */
+function parseSelectionOptions(options: any): ModelSelection {
+  const requires = (options.requires as string[]).flatMap((value) => value.split(',').map((c) => c.trim()).filter(Boolean));
+  const unknown = requires.filter((capability) => !(capability in MODEL_CAPABILITIES));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown capability "${unknown[0]}" (use ${Object.keys(MODEL_CAPABILITIES).join(', ')})`);
+  }
+
+  const minContext = options.minContext !== undefined ? parseInt(options.minContext) : undefined;
+  if (minContext !== undefined && !(minContext > 0)) {
+    throw new Error('--min-context must be a positive number of tokens');
+  }
+  const top = parseInt(options.top);
+  if (!(top > 0)) {
+    throw new Error('--top must be a positive number');
+  }
+
+  return {
+    provider: options.provider,
+    maxPrice: parseAmount(options.maxPrice, '--max-price'),
+    minContext,
+    requires: requires as ModelCapability[],
+    top,
+  };
+}
+
+/**
+ * Collect a repeatable option into an array
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
 
 program
   .name('ai-tokens')
   .description('Real-time token counter and cost calculator for AI APIs')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--offline', 'Use cached or bundled pricing; never fetch')
+  .option('--pricing-url <url>', 'Pricing source (URL, file:// URL, or local LiteLLM JSON)')
+  .option('--format <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'text');
+
+// Initialize pricing data (disk cache, then community sources) and apply config before each command;
+// the pricing subcommands manage the cache themselves, and only budget record prices anything
+// (input or usage logs; --cost amounts are recorded as given)
+program.hook('preAction', async (_command, actionCommand) => {
+  if (actionCommand.parent?.name() === 'pricing') return;
+  if (actionCommand.parent?.name() === 'budget') {
+    if (actionCommand.name() !== 'record' || actionCommand.opts().cost !== undefined) return;
+  }
+
+  const { offline, pricingUrl } = program.opts();
+  try {
+    await initializePricing({ offline, url: pricingUrl || config.pricingUrl, overrides: config });
+
+    // Against the loaded table, so config and community models resolve to their own tokenizers
+    Object.entries(config.tokenizers || {}).forEach(([model, path]) => useTokenizerFile(model, path));
+    Object.entries(config.calibration || {}).forEach(([model, path]) =>
+      calibrateTokenizer(model, loadCalibrationSamples(path))
+    );
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+});
 
 /**
  * Count tokens and estimate cost
@@ -26,29 +412,81 @@ program
 program
   .command('count')
   .description('Count tokens and calculate cost')
-  .argument('<input>', 'Text or file path')
+  .argument('[input]', 'Text, file path, or - for stdin (default: piped stdin)')
   .option('-m, --model <model>', 'Model name (e.g., gpt-4o, claude-sonnet-4)', 'gpt-4o')
-  .option('-o, --output <tokens>', 'Estimated output tokens', '500')
+  .option('-o, --output <tokens>', 'Estimated output tokens', String(DEFAULT_OUTPUT_TOKENS))
+  .option('--chat', 'Treat input as a JSON chat request body (messages array)')
+  .option('--tokenizer <path>', 'Local Hugging Face tokenizer.json for the model')
+  .option('--calibration <file>', 'Calibration samples (JSONL of { text, tokens }) for estimated models')
+  .option('--cached-prefix <file|tokens>', 'Cacheable prompt prefix (file or token count) for prompt caching')
+  .option('--batch', 'Price with Batch API discounts')
+  .option('--reasoning-effort <level>', 'Reasoning effort for reasoning models (low, medium, high)')
+  .option('--reasoning-tokens <tokens>', 'Explicit hidden reasoning tokens for reasoning models')
+  .option('--image <path>', 'Attach an image (PNG, JPEG, GIF, WebP); repeatable', collect, [])
+  .option('--image-detail <level>', 'OpenAI image detail (low, high)', 'high')
+  .option('--tools <file>', 'Tool/function definitions (JSON) sent with every call')
+  .option('--response-schema <file>', 'Structured-output JSON schema (or response_format)')
   .option('--simple', 'Simple output (for piping)')
-  .action(async (input: string, options: any) => {
+  .option('--charge', 'Record the estimate in the budget ledger')
+  .option('--watch', 'Re-price the input file, directory or glob on every save')
+  .action(async (input: string | undefined, options: any) => {
     try {
-      // Read input (file or direct text)
-      let text = input;
-      try {
-        text = readFileSync(input, 'utf-8');
-      } catch {
-        // Input is direct text, not a file
+      if (options.tokenizer) {
+        useTokenizerFile(options.model, options.tokenizer);
+      }
+      if (options.calibration) {
+        calibrateTokenizer(options.model, loadCalibrationSamples(options.calibration));
       }
-
       const outputTokens = parseInt(options.output);
-      const estimate = calculateCost(text, options.model, outputTokens);
+      const costOptions: CostOptions = {
+        cachedPrefix: parseCachedPrefix(options.cachedPrefix),
+        batch: options.batch,
+        ...parseReasoningOptions(options),
+        ...parseImageOptions(options),
+        ...parseToolOptions(options),
+      };
 
-      if (options.simple) {
-        console.log(`${estimate.inputTokens} tokens | $${estimate.totalCost.toFixed(4)} | ${options.model}`);
-      } else {
-        console.log(formatWarning(estimate.totalCost));
-        console.log(formatAnalysis(estimate));
+      const format = getOutputFormat();
+      const render = (text: CostInput) => {
+        const estimate = calculateCost(text, options.model, outputTokens, costOptions);
+        if (options.simple) {
+          return { estimate, output: formatSimple(estimate.inputTokens, estimate.totalCost, options.model) };
+        }
+        if (format !== 'text') {
+          return { estimate, output: formatEstimateOutput(estimate, format) };
+        }
+        return { estimate, output: `${formatWarning(estimate.totalCost)}\n${formatAnalysis(estimate)}` };
+      };
+
+      if (options.watch) {
+        if (options.charge) {
+          throw new Error('--charge cannot be combined with --watch');
+        }
+        await watchInput(input, options.chat, render, format === 'text' && !options.simple);
+        return;
+      }
+
+      const { estimate, output } = render(await readInput(input, options.chat));
+
+      // A request that doesn't fit can't be sent: fail before anything is charged
+      if ((options.simple || options.charge) && !estimate.fit.fits) {
+        console.log(output);
+        console.error(`Error: does not fit: ${estimate.fit.problems.join('; ')}${options.charge ? ' (not charged)' : ''}`);
+        process.exit(1);
       }
+      if (options.charge) {
+        chargeBudget([
+          {
+            at: new Date().toISOString(),
+            kind: 'estimate',
+            cost: estimate.totalCost,
+            model: options.model,
+            inputTokens: estimate.inputTokens,
+            outputTokens: estimate.outputTokens,
+          },
+        ]);
+      }
+      console.log(output);
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -61,38 +499,323 @@ program
 program
   .command('compare')
   .description('Compare costs across different models')
-  .argument('<input>', 'Text or file path')
+  .argument('[input]', 'Text, file path, or - for stdin (default: piped stdin)')
   .option('-m, --model <model>', 'Current model', 'gpt-4o')
-  .option('-o, --output <tokens>', 'Estimated output tokens', '500')
-  .action(async (input: string, options: any) => {
+  .option('-o, --output <tokens>', 'Estimated output tokens', String(DEFAULT_OUTPUT_TOKENS))
+  .option('--chat', 'Treat input as a JSON chat request body (messages array)')
+  .option('--tokenizer <path>', 'Local Hugging Face tokenizer.json for the current model')
+  .option('--calibration <file>', 'Calibration samples (JSONL of { text, tokens }) for estimated models')
+  .option('--cached-prefix <file|tokens>', 'Cacheable prompt prefix (file or token count) for prompt caching')
+  .option('--batch', 'Price with Batch API discounts')
+  .option('--reasoning-effort <level>', 'Reasoning effort for reasoning models (low, medium, high)')
+  .option('--reasoning-tokens <tokens>', 'Explicit hidden reasoning tokens for reasoning models')
+  .option('--image <path>', 'Attach an image (PNG, JPEG, GIF, WebP); repeatable', collect, [])
+  .option('--image-detail <level>', 'OpenAI image detail (low, high)', 'high')
+  .option('--tools <file>', 'Tool/function definitions (JSON) sent with every call')
+  .option('--response-schema <file>', 'Structured-output JSON schema (or response_format)')
+  .option('--provider <name>', 'Only compare models from this provider')
+  .option('--max-price <usd>', 'Drop models costing more than this per call')
+  .option('--min-context <tokens>', 'Only compare models with at least this context window')
+  .option('--requires <capability>', `Required capability (${Object.keys(MODEL_CAPABILITIES).join(', ')}); repeatable`, collect, [])
+  .option('--top <n>', 'Show the N cheapest models', '5')
+  .option('--watch', 'Re-price the input file, directory or glob on every save')
+  .action(async (input: string | undefined, options: any) => {
     try {
-      let text = input;
-      try {
-        text = readFileSync(input, 'utf-8');
-      } catch {
-        // Input is direct text
+      if (options.tokenizer) {
+        useTokenizerFile(options.model, options.tokenizer);
+      }
+      if (options.calibration) {
+        calibrateTokenizer(options.model, loadCalibrationSamples(options.calibration));
+      }
+      const outputTokens = parseInt(options.output);
+
+      // Candidates come from the loaded pricing table, ranked by total cost
+      const selection = parseSelectionOptions(options);
+      const costOptions: CostOptions = {
+        cachedPrefix: parseCachedPrefix(options.cachedPrefix),
+        batch: options.batch,
+        ...parseReasoningOptions(options),
+        ...parseImageOptions(options),
+        ...parseToolOptions(options),
+      };
+
+      const format = getOutputFormat();
+      const render = (text: CostInput) => {
+        const comparison = compareSelectedModels(text, options.model, selection, outputTokens, costOptions);
+        return {
+          estimate: comparison.current,
+          output: format === 'text' ? formatComparison(comparison) : formatComparisonOutput(comparison, format),
+        };
+      };
+
+      if (options.watch) {
+        await watchInput(input, options.chat, render, format === 'text');
+        return;
+      }
+
+      console.log(render(await readInput(input, options.chat)).output);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Show where a prompt's tokens go
+ */
+program
+  .command('explain')
+  .description('Break token count and cost down by line, heading or code block')
+  .argument('[input]', 'Text, file path, or - for stdin (default: piped stdin)')
+  .option('-m, --model <model>', 'Model name', 'gpt-4o')
+  .option('--by <mode>', `Split by ${EXPLAIN_MODES.join(', ')}`, 'heading')
+  .option('--sort <order>', 'Sort sections by tokens or position', 'position')
+  .option('--top <n>', 'Only show the N largest sections (implies --sort tokens)')
+  .option('--tokens', 'Render token boundaries in alternating colors')
+  .option('--tokenizer <path>', 'Local Hugging Face tokenizer.json for the model')
+  .action(async (input: string | undefined, options: any) => {
+    try {
+      if (options.tokenizer) {
+        useTokenizerFile(options.model, options.tokenizer);
+      }
+      if (!['tokens', 'position'].includes(options.sort)) {
+        throw new Error('--sort must be one of: tokens, position');
+      }
+      const format = getOutputFormat();
+      const text = (await readInput(input)) as string;
+
+      if (options.tokens) {
+        if (!getModelPricing(options.model)) {
+          throw new Error(`Unknown model: ${options.model}`);
+        }
+        const boundaries = getTokenBoundaries(text, options.model);
+        const note = boundaries.fallback
+          ? `${options.model} doesn't expose token boundaries; showing ${boundaries.tokenizer} as an approximation`
+          : undefined;
+        console.log(
+          format === 'text'
+            ? formatTokenBoundaries(boundaries.pieces, boundaries.tokenizer, note)
+            : formatTokensOutput(boundaries, options.model, format)
+        );
+        return;
+      }
+
+      const report = explainTokens(text, options.model, options.by);
+      const top = options.top !== undefined ? parseInt(options.top) : undefined;
+      console.log(
+        format === 'text'
+          ? formatExplain(report, { sort: top ? 'tokens' : options.sort, top })
+          : formatExplainOutput(report, format)
+      );
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Parse a percentage option (10 or 10%) into a fraction
+ */
+function parsePercent(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const percent = parseFloat(value.replace(/%$/, ''));
+  if (!(percent >= 0 && percent <= 100)) {
+    throw new Error(`${flag} must be a percentage between 0 and 100`);
+  }
+  return percent / 100;
+}
+
+/**
+ * Project monthly spend
+ */
+program
+  .command('project')
+  .description('Project month-by-month spend for a prompt across models and traffic growth')
+  .argument('[input]', 'Text, file path, or - for stdin (or use --input-tokens)')
+  .requiredOption('--calls-per-day <n>', 'API calls per day in the first month')
+  .option('-m, --model <model>', 'Current model', 'gpt-4o')
+  .option('-o, --output <tokens>', 'Estimated output tokens per call', String(DEFAULT_OUTPUT_TOKENS))
+  .option('--input-tokens <n>', 'Average input tokens per call, instead of a prompt')
+  .option('--growth <percent>', 'Month-over-month growth in calls', '0')
+  .option('--months <n>', 'Months to project', '12')
+  .option('--models <list>', 'Comma-separated models to compare (instead of picking them like compare)')
+  .option('--no-compare', 'Only project the current model')
+  .option('--provider <name>', 'Only compare models from this provider')
+  .option('--max-price <usd>', 'Drop models costing more than this per call')
+  .option('--min-context <tokens>', 'Only compare models with at least this context window')
+  .option('--requires <capability>', `Required capability (${Object.keys(MODEL_CAPABILITIES).join(', ')}); repeatable`, collect, [])
+  .option('--top <n>', 'Compare the N cheapest models', '5')
+  .option('--cached-prefix <file|tokens>', 'Cacheable prompt prefix (file or token count)')
+  .option('--cache-hit-rate <percent>', 'Share of calls that read the cached prefix', '0')
+  .option('--batch-share <percent>', 'Share of calls sent through the Batch API', '0')
+  .option('--reasoning-effort <level>', 'Reasoning effort for reasoning models (low, medium, high)')
+  .option('--reasoning-tokens <tokens>', 'Explicit hidden reasoning tokens for reasoning models')
+  .option('--chat', 'Treat input as a JSON chat request body (messages array)')
+  .action(async (input: string | undefined, options: any) => {
+    try {
+      const format = getOutputFormat();
+      const inputTokens = options.inputTokens !== undefined ? parseInt(options.inputTokens) : undefined;
+      if (inputTokens !== undefined && !(inputTokens >= 0)) {
+        throw new Error('--input-tokens must be a non-negative integer');
+      }
+      if (inputTokens !== undefined && input !== undefined) {
+        throw new Error('Pass a prompt or --input-tokens, not both');
+      }
+      const months = parseInt(options.months);
+      if (!(months > 0)) {
+        throw new Error('--months must be a positive integer');
       }
 
+      const text = inputTokens !== undefined ? '' : await readInput(input, options.chat);
+      const costOptions: CostOptions = {
+        inputTokens,
+        cachedPrefix: parseCachedPrefix(options.cachedPrefix),
+        ...parseReasoningOptions(options),
+      };
       const outputTokens = parseInt(options.output);
 
-      // Compare with popular alternatives
-      const alternatives = [
-        'gpt-4o-mini',
-        'gpt-3.5-turbo',
-        'claude-sonnet-4',
-        'claude-haiku-3-5',
-        'gemini-1.5-flash',
-      ].filter(m => m !== options.model);
+      // Same candidates as compare: an explicit list, or picked from the pricing table
+      let alternatives: string[] = [];
+      if (options.compare && options.models) {
+        alternatives = options.models.split(',').map((m: string) => m.trim()).filter((m: string) => m && m !== options.model);
+      } else if (options.compare) {
+        alternatives = compareSelectedModels(text, options.model, parseSelectionOptions(options), outputTokens, costOptions)
+          .alternatives.map((alt) => alt.model);
+      }
+
+      const projection = projectSpend(
+        text,
+        options.model,
+        alternatives,
+        outputTokens,
+        costOptions,
+        {
+          callsPerDay: parseFloat(options.callsPerDay),
+          growthPercent: parseFloat(options.growth.replace(/%$/, '')),
+          months,
+          cacheHitRate: parsePercent(options.cacheHitRate, '--cache-hit-rate'),
+          batchShare: parsePercent(options.batchShare, '--batch-share'),
+        }
+      );
+      console.log(format === 'text' ? formatProjection(projection) : formatProjectionOutput(projection, format));
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Price a template over a dataset
+ */
+program
+  .command('template')
+  .description('Render a {{variable}} template for every dataset row and price the batch')
+  .argument('<template>', 'Template file')
+  .requiredOption('--data <file>', 'Rows to fill the template from (.jsonl, .json or .csv)')
+  .option('-m, --model <model>', 'Model name', 'gpt-4o')
+  .option('-o, --output <tokens>', 'Estimated output tokens per call', String(DEFAULT_OUTPUT_TOKENS))
+  .option('--chat', 'The template renders to a JSON chat request body')
+  .option('--batch', 'Price with Batch API discounts')
+  .option('--reasoning-effort <level>', 'Reasoning effort for reasoning models (low, medium, high)')
+  .option('--reasoning-tokens <tokens>', 'Explicit hidden reasoning tokens for reasoning models')
+  .option('--tools <file>', 'Tool/function definitions (JSON) sent with every call')
+  .option('--response-schema <file>', 'Structured-output JSON schema (or response_format)')
+  .action((templatePath: string, options: any) => {
+    try {
+      const format = getOutputFormat();
+      const template = readFileSync(templatePath, 'utf-8');
+      const report = estimateTemplate(template, loadDataset(options.data), options.model, parseInt(options.output), {
+        chat: options.chat,
+        batch: options.batch,
+        ...parseReasoningOptions(options),
+        ...parseToolOptions(options),
+      });
+      console.log(format === 'text' ? formatTemplate(report) : formatTemplateOutput(report, format));
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Count every file under directories and globs
+ */
+program
+  .command('scan')
+  .description('Count tokens and cost for every file in directories or globs')
+  .argument('<paths...>', 'Files, directories, or globs (e.g. "prompts/**/*.md")')
+  .option('-m, --model <models>', 'Model name(s), comma-separated', 'gpt-4o')
+  .option('-o, --output <tokens>', 'Estimated output tokens per file', String(DEFAULT_OUTPUT_TOKENS))
+  .option('--ignore <pattern>', 'Gitignore-style pattern to skip; repeatable', collect, [])
+  .option('--no-gitignore', 'Do not honor .gitignore files')
+  .option('--sort <key>', 'Sort files by tokens or path', 'tokens')
+  .option('--top <n>', 'Number of largest files to list', '10')
+  .option('--batch', 'Price with Batch API discounts')
+  .action(async (paths: string[], options: any) => {
+    try {
+      if (!['tokens', 'path'].includes(options.sort)) {
+        throw new Error('--sort must be one of: tokens, path');
+      }
+
+      const files = findFiles(paths, {
+        ignore: [...(config.ignore || []), ...options.ignore],
+        gitignore: options.gitignore,
+      });
+      if (files.length === 0) {
+        throw new Error('No files found');
+      }
+
+      const models = (options.model as string).split(',').map((m) => m.trim()).filter(Boolean);
+      const result = scanCosts(files, models, parseInt(options.output), { batch: options.batch });
+
+      const format = getOutputFormat();
+      console.log(format === 'text'
+        ? formatScan(result, { sort: options.sort, top: parseInt(options.top) })
+        : formatScanOutput(result, format));
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
 
-      const comparison = compareCosts(text, options.model, alternatives, outputTokens);
+/**
+ * Report actual spend from API usage logs
+ */
+program
+  .command('usage')
+  .description('Report actual spend from API response logs (JSONL with usage blocks)')
+  .argument('<logfiles...>', 'JSONL log files, or - for stdin')
+  .option('--tag <field>', 'Group spend by a field of each log line (e.g. metadata.service)')
+  .action(async (logfiles: string[], options: any) => {
+    try {
+      const format = getOutputFormat();
+      const { entries, skippedLines } = await loadUsageEntries(logfiles, options.tag);
+      if (entries.length === 0) {
+        throw new Error('No usage blocks found in the log files');
+      }
 
-      console.log(formatComparison(comparison));
+      const report = summarizeUsage(entries, options.tag, skippedLines);
+      console.log(format === 'text' ? formatUsage(report) : formatUsageOutput(report, format));
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
   });
 
+/**
+ * Describe where a model's price came from
+ */
+function formatPricingSource(model: ModelPricing): string {
+  const source = {
+    bundled: 'bundled (ai-tokens)',
+    community: 'community (LiteLLM)',
+    config: 'project config (.ai-tokensrc)',
+    custom: 'custom (registered at runtime)',
+  }[model.source || 'bundled'];
+
+  return model.discountPercent ? `${source}, ${model.discountPercent}% ${model.provider} discount` : source;
+}
+
 /**
  * List all available models
  */
@@ -100,6 +823,18 @@ program
   .command('models')
   .description('List all available models and pricing')
   .action(() => {
+    let format: OutputFormat;
+    try {
+      format = getOutputFormat();
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+    if (format !== 'text') {
+      console.log(formatModelsOutput(getAllModelEntries(), format));
+      return;
+    }
+
     const models = getAllModels();
 
     console.log('\n📋 Available Models:\n');
@@ -109,8 +844,266 @@ program
       console.log(`  Input:  $${model.inputPricePerMillion.toFixed(2)}/M tokens`);
       console.log(`  Output: $${model.outputPricePerMillion.toFixed(2)}/M tokens`);
       console.log(`  Context: ${(model.contextWindow / 1000).toFixed(0)}K tokens`);
+      if (model.maxOutputTokens) {
+        console.log(`  Max Output: ${(model.maxOutputTokens / 1000).toFixed(0)}K tokens`);
+      }
+      console.log(`  Source: ${formatPricingSource(model)}`);
       console.log('');
     });
   });
 
-program.parse();
+/**
+ * Serve count/compare/models over local HTTP
+ */
+program
+  .command('serve')
+  .description('Start a local HTTP server (POST /count, POST /compare, GET /models, GET /health)')
+  .option('-p, --port <port>', 'Port to listen on', '8787')
+  .option('--host <host>', 'Interface to bind', '127.0.0.1')
+  .action(async (options: any) => {
+    let port: number;
+    try {
+      port = parsePort(options.port);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    const { offline, pricingUrl } = program.opts();
+    const encodings = warmTokenizers();
+    const server = createTokenServer({ pricing: { offline, url: pricingUrl || config.pricingUrl, overrides: config } });
+
+    await runServer(server, port, options.host, (bound) => {
+      console.log(`✅ Listening on http://${options.host}:${bound} (${encodings} tokenizers warmed)`);
+      console.log('  POST /count   POST /compare   GET /models   GET /models/:id   GET /health   POST /pricing/reload');
+    });
+  });
+
+/**
+ * Guard OpenAI/Anthropic API calls with pre-flight cost limits
+ */
+program
+  .command('proxy')
+  .description('Proxy OpenAI/Anthropic API calls, rejecting requests over cost limits')
+  .requiredOption('--upstream <url>', 'API base URL to forward to (e.g. https://api.openai.com)')
+  .option('-p, --port <port>', 'Port to listen on', '8788')
+  .option('--host <host>', 'Interface to bind', '127.0.0.1')
+  .option('--max-request-cost <usd>', 'Reject requests estimated above this cost')
+  .option('--max-spend <usd>', 'Reject requests that would push rolling spend above this amount')
+  .option('--window <duration>', 'Rolling window for --max-spend (e.g. 1h, 24h, 7d)', '24h')
+  .option('--ledger', 'Record actual spend in the budget ledger')
+  .action(async (options: any) => {
+    let server: Server;
+    let port: number;
+    try {
+      port = parsePort(options.port);
+      server = createCostGuardProxy({
+        upstream: options.upstream,
+        maxRequestCost: parseAmount(options.maxRequestCost, '--max-request-cost'),
+        maxSpend: parseAmount(options.maxSpend, '--max-spend'),
+        windowMs: parseDuration(options.window),
+        onRecord: (record) => {
+          const actual = record.actualCost === null ? 'no usage' : formatCost(record.actualCost);
+          console.log(
+            `${record.at.toISOString()} ${record.status} ${record.model}  est ${formatCost(record.estimatedCost)}  actual ${actual}`
+          );
+          if (options.ledger && record.actualCost !== null) {
+            try {
+              recordSpend([
+                {
+                  at: record.at.toISOString(),
+                  kind: 'actual',
+                  cost: record.actualCost,
+                  model: record.model,
+                  inputTokens: record.usage!.inputTokens + record.usage!.cacheWriteTokens + record.usage!.cacheReadTokens,
+                  outputTokens: record.usage!.outputTokens + record.usage!.reasoningTokens,
+                  note: 'proxy',
+                },
+              ]);
+            } catch (error) {
+              console.error('Error:', error instanceof Error ? error.message : String(error));
+            }
+          }
+        },
+      });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+
+    await runServer(server, port, options.host, (bound) => {
+      console.log(`✅ Guarding ${options.upstream} on http://${options.host}:${bound}`);
+      const limits = [
+        options.maxRequestCost !== undefined ? `${formatCost(parseAmount(options.maxRequestCost, '--max-request-cost')!)}/request` : null,
+        options.maxSpend !== undefined ? `${formatCost(parseAmount(options.maxSpend, '--max-spend')!)}/${options.window}` : null,
+      ].filter(Boolean);
+      console.log(`  Limits: ${limits.length ? limits.join(', ') : 'none (estimating and recording only)'}`);
+    });
+  });
+
+/**
+ * Manage the pricing cache
+ */
+const pricing = program
+  .command('pricing')
+  .description('Manage cached pricing data');
+
+pricing
+  .command('refresh')
+  .description('Fetch the latest pricing and update the cache')
+  .action(async () => {
+    const url = getPricingUrl(program.opts().pricingUrl || config.pricingUrl);
+    try {
+      const models = await refreshPricing(MODEL_PRICING, url, config);
+      console.log(`✅ Pricing refreshed: ${Object.keys(models).length} models`);
+      console.log(`  Source: ${url}`);
+      console.log(`  Cache:  ${getPricingCachePath()}`);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+pricing
+  .command('status')
+  .description('Show the cached pricing source and age')
+  .action(() => {
+    const cache = readPricingCache();
+
+    console.log(`Cache:  ${getPricingCachePath()}`);
+    if (!cache) {
+      console.log('Status: no cached pricing (bundled prices will be used offline)');
+      return;
+    }
+
+    const ageHours = (Date.now() - Date.parse(cache.fetchedAt)) / (60 * 60 * 1000);
+    console.log(`Source: ${cache.source}`);
+    console.log(`Fetched: ${cache.fetchedAt} (${ageHours.toFixed(1)}h ago)`);
+    console.log(`Models: ${Object.keys(cache.pricing).length}`);
+  });
+
+/**
+ * Track spend against a budget
+ */
+const budget = program
+  .command('budget')
+  .description('Track estimated and actual spend against a budget');
+
+budget
+  .command('set')
+  .description('Set the spending limit')
+  .argument('<amount>', 'Limit in USD per period')
+  .option('--period <period>', `Budget period (${BUDGET_PERIODS.join(', ')})`, 'monthly')
+  .option('--hard', 'Refuse charges past the limit instead of warning')
+  .action((amount: string, options: any) => {
+    try {
+      const ledger = setBudget({
+        limit: parseFloat(amount.replace(/^\$/, '')),
+        period: options.period as BudgetPeriod,
+        hard: options.hard || undefined,
+      });
+      console.log(`✅ Budget set: ${formatCost(ledger.budget!.limit)} ${ledger.budget!.period}${options.hard ? ' (hard limit)' : ''}`);
+      console.log(`  Ledger: ${getBudgetPath()}`);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+budget
+  .command('record')
+  .description('Record an estimate or actual spend in the ledger')
+  .argument('[input]', 'Text, file path, or - for stdin to record as an estimate')
+  .option('-m, --model <model>', 'Model for the estimate', 'gpt-4o')
+  .option('-o, --output <tokens>', 'Estimated output tokens', String(DEFAULT_OUTPUT_TOKENS))
+  .option('--cost <usd>', 'Record an actual amount spent')
+  .option('--usage <logfile>', 'Record actual spend from a JSONL usage log; repeatable', collect, [])
+  .option('--note <text>', 'Note stored with the entry')
+  .action(async (input: string | undefined, options: any) => {
+    try {
+      const sources = [input !== undefined, options.cost !== undefined, options.usage.length > 0].filter(Boolean);
+      if (sources.length !== 1) {
+        throw new Error('Pass exactly one of: input text, --cost, or --usage');
+      }
+
+      const at = new Date().toISOString();
+      let entries: LedgerEntry[];
+      if (options.cost !== undefined) {
+        const cost = parseFloat(String(options.cost).replace(/^\$/, ''));
+        if (!(cost >= 0)) {
+          throw new Error('--cost must be a non-negative amount');
+        }
+        entries = [{ at, kind: 'actual', cost, note: options.note }];
+      } else if (options.usage.length > 0) {
+        // One entry per model and day, dated from the log
+        const { entries: usage } = await loadUsageEntries(options.usage);
+        const grouped: Record<string, LedgerEntry> = {};
+        for (const call of usage) {
+          const key = `${call.day}|${call.model}`;
+          if (!grouped[key]) {
+            grouped[key] = {
+              at: call.day === 'unknown' ? at : new Date(`${call.day}T12:00:00`).toISOString(),
+              kind: 'actual',
+              cost: 0,
+              model: call.model,
+              inputTokens: 0,
+              outputTokens: 0,
+              note: options.note,
+            };
+          }
+          const entry = grouped[key];
+          entry.cost += priceUsage(call) || 0;
+          entry.inputTokens! += call.inputTokens + call.cacheWriteTokens + call.cacheReadTokens;
+          entry.outputTokens! += call.outputTokens + call.reasoningTokens;
+        }
+        entries = Object.values(grouped);
+        if (entries.length === 0) {
+          throw new Error('No usage blocks found in the log files');
+        }
+      } else {
+        const estimate = calculateCost(await readInput(input), options.model, parseInt(options.output));
+        entries = [
+          {
+            at,
+            kind: 'estimate',
+            cost: estimate.totalCost,
+            model: options.model,
+            inputTokens: estimate.inputTokens,
+            outputTokens: estimate.outputTokens,
+            note: options.note,
+          },
+        ];
+      }
+
+      chargeBudget(entries);
+      const total = entries.reduce((sum, entry) => sum + entry.cost, 0);
+      console.log(`✅ Recorded ${formatCost(total)} (${entries[0].kind}, ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'})`);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+budget
+  .command('status')
+  .description('Show spend against the budget for the current period')
+  .action(() => {
+    try {
+      const status = getBudgetStatus(readLedger());
+      if (!status) {
+        console.log(`No budget set (ledger: ${getBudgetPath()})`);
+        console.log('Set one with: ai-tokens budget set <amount> --period monthly');
+        return;
+      }
+
+      console.log(
+        formatBudgetStatus(status.spent, status.budget.limit, { name: status.budget.period, since: status.periodStart })
+      );
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+await program.parseAsync();
+freeTokenizers();
@@ -2,18 +2,116 @@
  * Cost calculation engine
  */
 
-import { getModelPricing, type ModelPricing } from '../data/pricing.js';
+import {
+  BATCH_DISCOUNTS,
+  MODEL_ALIASES,
+  REASONING_EFFORT,
+  findModels,
+  getModelPricing,
+  type ModelFilter,
+  type ModelPricing,
+  type PricingRates,
+  type PricingTier,
+  type ReasoningEffort,
+} from '../data/pricing.js';
 import { countTokens } from './tokenizer.js';
+import { countChatTokens, type ChatRequest, type MessageTokenCount } from './messages.js';
+import { countImageTokens, type ImageDetail, type ImageInput, type ImageTokenCount } from './images.js';
+import { countToolTokens, type ResponseSchema, type ToolDefinition, type ToolTokenCount } from './tools.js';
+import type { TokenRange } from './estimator.js';
+
+/**
+ * Output tokens assumed when no estimate is given
+ */
+export const DEFAULT_OUTPUT_TOKENS = 500;
+
+/**
+ * Input to price: raw prompt text or a chat request body
+ */
+export type CostInput = string | ChatRequest;
+
+/**
+ * Optional pricing modifiers
+ */
+export interface CostOptions {
+  // Known prompt token count (e.g. an average); the input text is not tokenized
+  inputTokens?: number;
+  // Cacheable prompt prefix: a token count, or the prefix text (counted per model)
+  cachedPrefix?: number | string;
+  // Price through the provider's Batch API
+  batch?: boolean;
+  // Hidden reasoning tokens for reasoning models: an effort preset or an explicit count
+  reasoningEffort?: ReasoningEffort;
+  reasoningTokens?: number;
+  // Attached images (vision models only), billed as input
+  images?: ImageInput[];
+  imageDetail?: ImageDetail;
+  // Tool definitions and structured-output schema sent with every call
+  tools?: ToolDefinition[];
+  responseSchema?: ResponseSchema;
+}
+
+/**
+ * Batch API pricing applied to an estimate
+ */
+export interface BatchDiscount {
+  supported: boolean;
+  discountPercent: number;
+}
+
+/**
+ * Prompt caching split: the first call writes the prefix, later calls read it
+ */
+export interface CacheCostBreakdown {
+  supported: boolean;
+  prefixTokens: number;
+  uncachedTokens: number;
+  cacheWriteCost: number;
+  cacheReadCost: number;
+  uncachedInputCost: number;
+  firstCallCost: number;
+  steadyStateCost: number;
+}
+
+/**
+ * Whether a request fits the model's context window and output limit
+ */
+export interface ContextFit {
+  contextWindow: number;
+  maxOutputTokens?: number;
+  requestTokens: number; // Prompt (text, images, tools) plus output and reasoning
+  percentUsed: number;
+  fits: boolean;
+  problems: string[];
+}
 
 export interface CostEstimate {
   model: string;
   inputTokens: number;
-  outputTokens: number;
+  outputTokens: number; // Visible output
+  reasoningTokens: number; // Hidden reasoning, billed as output
+  imageTokens: number; // Attached images, billed as input
+  toolTokens: number; // Tool definitions and response schema, billed as input
   inputCost: number;
   outputCost: number;
+  reasoningCost: number;
+  imageCost: number;
+  toolCost: number;
   totalCost: number;
   costPerToken: number;
   pricing: ModelPricing;
+  tokenizer: string;
+  exactTokens: boolean;
+  inputTokensRange?: TokenRange;
+  messages?: MessageTokenCount[];
+  images?: ImageTokenCount[];
+  tools?: ToolTokenCount;
+  caching?: CacheCostBreakdown;
+  rates: PricingRates; // Effective rates after tiers and batch discounts
+  tier?: PricingTier;
+  batch?: BatchDiscount;
+  reasoningEffort?: ReasoningEffort;
+  fit: ContextFit;
 }
 
 export interface CostComparison {
@@ -24,15 +122,155 @@ export interface CostComparison {
     savings: number;
     savingsPercent: number;
   }>;
+  skipped: Array<{ model: string; reason: string }>;
+}
+
+/**
+ * Resolve the rates for a request: long-context tier by input size, then batch discount
+ */
+export function getEffectiveRates(
+  pricing: ModelPricing,
+  inputTokens: number,
+  batch: boolean = false
+): { rates: PricingRates; tier?: PricingTier; batch?: BatchDiscount } {
+  const tier = (pricing.tiers || [])
+    .filter((t) => inputTokens > t.aboveInputTokens)
+    .sort((a, b) => b.aboveInputTokens - a.aboveInputTokens)[0];
+
+  // Tiers without their own cache rates keep the base cache/input ratio
+  const scaleCache = (price?: number) =>
+    tier && price !== undefined ? price * (tier.inputPricePerMillion / pricing.inputPricePerMillion) : price;
+
+  let rates: PricingRates = tier
+    ? {
+        inputPricePerMillion: tier.inputPricePerMillion,
+        outputPricePerMillion: tier.outputPricePerMillion,
+        cacheWritePricePerMillion: tier.cacheWritePricePerMillion ?? scaleCache(pricing.cacheWritePricePerMillion),
+        cacheReadPricePerMillion: tier.cacheReadPricePerMillion ?? scaleCache(pricing.cacheReadPricePerMillion),
+      }
+    : {
+        inputPricePerMillion: pricing.inputPricePerMillion,
+        outputPricePerMillion: pricing.outputPricePerMillion,
+        cacheWritePricePerMillion: pricing.cacheWritePricePerMillion,
+        cacheReadPricePerMillion: pricing.cacheReadPricePerMillion,
+      };
+
+  if (!batch) {
+    return { rates, tier };
+  }
+
+  // Prefer the model's own batch rate, then the provider's standard discount
+  const discountPercent = pricing.batchInputPricePerMillion !== undefined && pricing.inputPricePerMillion > 0
+    ? (1 - pricing.batchInputPricePerMillion / pricing.inputPricePerMillion) * 100
+    : BATCH_DISCOUNTS[pricing.provider.toLowerCase()];
+
+  if (discountPercent === undefined) {
+    return { rates, tier, batch: { supported: false, discountPercent: 0 } };
+  }
+
+  const factor = 1 - discountPercent / 100;
+  const discount = (price?: number) => (price === undefined ? undefined : price * factor);
+  rates = {
+    inputPricePerMillion: rates.inputPricePerMillion * factor,
+    outputPricePerMillion: rates.outputPricePerMillion * factor,
+    cacheWritePricePerMillion: discount(rates.cacheWritePricePerMillion),
+    cacheReadPricePerMillion: discount(rates.cacheReadPricePerMillion),
+  };
+
+  return { rates, tier, batch: { supported: true, discountPercent } };
+}
+
+/**
+ * Estimate hidden reasoning tokens for a model
+ * Non-reasoning models produce none; reasoning models default to medium effort.
+ */
+export function estimateReasoningTokens(
+  pricing: ModelPricing,
+  outputTokens: number,
+  options: Pick<CostOptions, 'reasoningEffort' | 'reasoningTokens'> = {}
+): { tokens: number; effort?: ReasoningEffort } {
+  if (!pricing.reasoning) {
+    return { tokens: 0 };
+  }
+  if (options.reasoningTokens !== undefined) {
+    return { tokens: options.reasoningTokens };
+  }
+
+  const effort = options.reasoningEffort || 'medium';
+  const preset = REASONING_EFFORT[effort];
+  return { tokens: Math.max(preset.minimum, Math.round(outputTokens * preset.multiplier)), effort };
+}
+
+/**
+ * Check input plus output against the context window, and output against the max output tokens
+ * Reasoning tokens count toward both limits.
+ */
+export function checkContextFit(pricing: ModelPricing, promptTokens: number, outputTokens: number): ContextFit {
+  const requestTokens = promptTokens + outputTokens;
+  const problems: string[] = [];
+
+  if (requestTokens > pricing.contextWindow) {
+    problems.push(
+      `request needs ${requestTokens.toLocaleString()} tokens; ${pricing.name} has a ${pricing.contextWindow.toLocaleString()}-token context window`
+    );
+  }
+  if (pricing.maxOutputTokens !== undefined && outputTokens > pricing.maxOutputTokens) {
+    problems.push(
+      `output needs ${outputTokens.toLocaleString()} tokens; ${pricing.name} returns at most ${pricing.maxOutputTokens.toLocaleString()}`
+    );
+  }
+
+  return {
+    contextWindow: pricing.contextWindow,
+    maxOutputTokens: pricing.maxOutputTokens,
+    requestTokens,
+    percentUsed: (requestTokens / pricing.contextWindow) * 100,
+    fits: problems.length === 0,
+    problems,
+  };
+}
+
+/**
+ * Price a cacheable prefix: write on the first call, read on later calls
+ * Models without cache pricing bill the prefix as normal input.
+ */
+function calculateCacheCost(
+  prefixTokens: number,
+  inputTokens: number,
+  otherCost: number, // Images, tools and output, billed on every call
+  rates: PricingRates
+): CacheCostBreakdown {
+  const prefix = Math.min(prefixTokens, inputTokens);
+  const uncachedTokens = inputTokens - prefix;
+  const supported = rates.cacheReadPricePerMillion !== undefined;
+
+  const readPrice = supported ? rates.cacheReadPricePerMillion! : rates.inputPricePerMillion;
+  const writePrice = rates.cacheWritePricePerMillion ?? rates.inputPricePerMillion;
+
+  const cacheWriteCost = (prefix / 1_000_000) * writePrice;
+  const cacheReadCost = (prefix / 1_000_000) * readPrice;
+  const uncachedInputCost = (uncachedTokens / 1_000_000) * rates.inputPricePerMillion;
+
+  return {
+    supported,
+    prefixTokens: prefix,
+    uncachedTokens,
+    cacheWriteCost,
+    cacheReadCost,
+    uncachedInputCost,
+    firstCallCost: cacheWriteCost + uncachedInputCost + otherCost,
+    steadyStateCost: cacheReadCost + uncachedInputCost + otherCost,
+  };
 }
 
 /**
  * Calculate cost for a given model and token counts
  */
 export function calculateCost(
-  inputText: string,
+  input: CostInput,
   model: string,
-  estimatedOutputTokens: number = 500
+  estimatedOutputTokens: number = DEFAULT_OUTPUT_TOKENS,
+  options: CostOptions = {}
 ): CostEstimate {
   const pricing = getModelPricing(model);
 
@@ -40,43 +278,114 @@ export function calculateCost(
     throw new Error(`Unknown model: ${model}`);
   }
 
-  const tokenCount = countTokens(inputText, model);
+  const chatCount = typeof input === 'string' || options.inputTokens !== undefined ? null : countChatTokens(input, model);
+  const tokenCount = options.inputTokens !== undefined
+    ? { tokens: options.inputTokens, tokenizer: 'given', exact: true, range: undefined }
+    : chatCount || countTokens(input as string, model);
   const inputTokens = tokenCount.tokens;
   const outputTokens = estimatedOutputTokens;
 
-  // Calculate costs (pricing is per million tokens)
-  const inputCost = (inputTokens / 1_000_000) * pricing.inputPricePerMillion;
-  const outputCost = (outputTokens / 1_000_000) * pricing.outputPricePerMillion;
-  const totalCost = inputCost + outputCost;
-  const costPerToken = totalCost / (inputTokens + outputTokens);
+  const images = options.images?.length ? options.images : undefined;
+  if (images && !pricing.vision) {
+    throw new Error(`${pricing.name} does not support image input`);
+  }
+  const imageCounts = images?.map((image) => ({
+    ...image,
+    tokens: countImageTokens(image, pricing.provider, options.imageDetail, MODEL_ALIASES[model.toLowerCase()] || model),
+  }));
+  const imageTokens = (imageCounts || []).reduce((sum, image) => sum + image.tokens, 0);
+
+  // Only models known to lack tool calling or structured output are rejected
+  if (options.tools?.length && pricing.functionCalling === false) {
+    throw new Error(`${pricing.name} does not support tool calling`);
+  }
+  if (options.responseSchema && pricing.structuredOutput === false) {
+    throw new Error(`${pricing.name} does not support structured output`);
+  }
+
+  const tools = options.tools?.length || options.responseSchema
+    ? countToolTokens(options.tools || [], model, options.responseSchema)
+    : undefined;
+  const toolTokens = tools?.tokens || 0;
+
+  // Calculate costs (pricing is per million tokens); images and tools count toward the tier threshold
+  const { rates, tier, batch } = getEffectiveRates(pricing, inputTokens + imageTokens + toolTokens, options.batch);
+  let inputCost = (inputTokens / 1_000_000) * rates.inputPricePerMillion;
+  const imageCost = (imageTokens / 1_000_000) * rates.inputPricePerMillion;
+  const toolCost = (toolTokens / 1_000_000) * rates.inputPricePerMillion;
+  const outputCost = (outputTokens / 1_000_000) * rates.outputPricePerMillion;
+  const reasoning = estimateReasoningTokens(pricing, outputTokens, options);
+  const reasoningTokens = reasoning.tokens;
+  const reasoningCost = (reasoningTokens / 1_000_000) * rates.outputPricePerMillion;
+
+  // With a cached prefix, the headline cost is the steady-state (cache hit) call
+  let caching: CacheCostBreakdown | undefined;
+  if (options.cachedPrefix !== undefined) {
+    const prefixTokens = typeof options.cachedPrefix === 'number'
+      ? options.cachedPrefix
+      : countTokens(options.cachedPrefix, model).tokens;
+    caching = calculateCacheCost(prefixTokens, inputTokens, imageCost + toolCost + outputCost + reasoningCost, rates);
+    inputCost = caching.cacheReadCost + caching.uncachedInputCost;
+  }
+
+  const fit = checkContextFit(pricing, inputTokens + imageTokens + toolTokens, outputTokens + reasoningTokens);
+
+  const totalCost = inputCost + imageCost + toolCost + outputCost + reasoningCost;
+  const costPerToken = totalCost / (inputTokens + imageTokens + toolTokens + outputTokens + reasoningTokens);
 
   return {
     model,
     inputTokens,
     outputTokens,
+    reasoningTokens,
+    imageTokens,
+    toolTokens,
     inputCost,
     outputCost,
+    reasoningCost,
+    imageCost,
+    toolCost,
     totalCost,
     costPerToken,
     pricing,
+    tokenizer: tokenCount.tokenizer,
+    exactTokens: tokenCount.exact,
+    inputTokensRange: tokenCount.range,
+    messages: chatCount?.messages,
+    images: imageCounts,
+    tools,
+    caching,
+    rates,
+    tier,
+    batch,
+    reasoningEffort: reasoning.effort,
+    fit,
   };
 }
 
 /**
  * Compare costs across multiple models
+ * Alternatives that cannot take the request (images on a text-only model, a prompt
+ * larger than the context window) are skipped.
  */
 export function compareCosts(
-  inputText: string,
+  input: CostInput,
   currentModel: string,
   alternativeModels: string[],
-  estimatedOutputTokens: number = 500
+  estimatedOutputTokens: number = DEFAULT_OUTPUT_TOKENS,
+  options: CostOptions = {}
 ): CostComparison {
-  const current = calculateCost(inputText, currentModel, estimatedOutputTokens);
+  const current = calculateCost(input, currentModel, estimatedOutputTokens, options);
+  const skipped: CostComparison['skipped'] = [];
 
   const alternatives = alternativeModels
     .map((model) => {
       try {
-        const estimate = calculateCost(inputText, model, estimatedOutputTokens);
+        const estimate = calculateCost(input, model, estimatedOutputTokens, options);
+        if (!estimate.fit.fits) {
+          skipped.push({ model, reason: estimate.fit.problems.join('; ') });
+          return null;
+        }
         const savings = current.totalCost - estimate.totalCost;
         const savingsPercent = (savings / current.totalCost) * 100;
 
@@ -86,7 +395,8 @@ export function compareCosts(
           savings,
           savingsPercent,
         };
-      } catch {
+      } catch (error) {
+        skipped.push({ model, reason: error instanceof Error ? error.message : String(error) });
         return null;
       }
     })
@@ -96,6 +406,42 @@ export function compareCosts(
   return {
     current,
     alternatives: alternatives as any,
+    skipped,
+  };
+}
+
+/**
+ * Which models to compare against, picked from the loaded pricing table
+ */
+export interface ModelSelection extends ModelFilter {
+  maxPrice?: number; // USD per call
+  top?: number; // Keep the N cheapest
+}
+
+/**
+ * Compare against every loaded model matching the selection, cheapest first
+ * Candidates over maxPrice are dropped; those that can't take the request are skipped as in compareCosts.
+ */
+export function compareSelectedModels(
+  input: CostInput,
+  currentModel: string,
+  selection: ModelSelection = {},
+  estimatedOutputTokens: number = DEFAULT_OUTPUT_TOKENS,
+  options: CostOptions = {}
+): CostComparison {
+  const current = getModelPricing(currentModel);
+  const candidates = findModels(selection).filter((model) => getModelPricing(model) !== current);
+  if (candidates.length === 0) {
+    throw new Error('No models match the selection');
+  }
+
+  const comparison = compareCosts(input, currentModel, candidates, estimatedOutputTokens, options);
+  const alternatives = comparison.alternatives.filter(
+    (alt) => selection.maxPrice === undefined || alt.estimate.totalCost <= selection.maxPrice
+  );
+  return {
+    ...comparison,
+    alternatives: selection.top !== undefined ? alternatives.slice(0, selection.top) : alternatives,
   };
 }
 
@@ -135,10 +481,20 @@ export function getCostOptimizations(
     });
   }
 
+  // Suggest lower reasoning effort
+  if (estimate.reasoningEffort && estimate.reasoningEffort !== 'low') {
+    const low = estimateReasoningTokens(estimate.pricing, estimate.outputTokens, { reasoningEffort: 'low' });
+    const potentialSaving = ((estimate.reasoningTokens - low.tokens) / 1_000_000) * estimate.rates.outputPricePerMillion;
+    optimizations.push({
+      suggestion: `Use reasoning effort "low" (~${low.tokens.toLocaleString()} reasoning tokens)`,
+      potentialSavings: `Save ~$${potentialSaving.toFixed(4)}`,
+    });
+  }
+
   // Suggest context reduction
   if (estimate.inputTokens > 1000) {
     const reduction = Math.min(1000, estimate.inputTokens * 0.3);
-    const potentialSaving = (reduction / 1_000_000) * estimate.pricing.inputPricePerMillion;
+    const potentialSaving = (reduction / 1_000_000) * estimate.rates.inputPricePerMillion;
     optimizations.push({
       suggestion: `Reduce context by ${Math.round(reduction)} tokens`,
       potentialSavings: `Save $${potentialSaving.toFixed(4)}`,
@@ -148,7 +504,7 @@ export function getCostOptimizations(
   // Suggest output reduction
   if (estimate.outputTokens > 1000) {
     const reduction = Math.min(500, estimate.outputTokens * 0.2);
-    const potentialSaving = (reduction / 1_000_000) * estimate.pricing.outputPricePerMillion;
+    const potentialSaving = (reduction / 1_000_000) * estimate.rates.outputPricePerMillion;
     optimizations.push({
       suggestion: `Request shorter responses (reduce by ${Math.round(reduction)} tokens)`,
       potentialSavings: `Save $${potentialSaving.toFixed(4)}`,
@@ -178,14 +534,15 @@ export function formatCost(cost: number): string {
  * Calculate cost for multiple API calls
  */
 export function calculateBatchCost(
-  calls: Array<{ inputText: string; model: string; estimatedOutput?: number }>
+  calls: Array<{ inputText: CostInput; model: string; estimatedOutput?: number }>,
+  options: CostOptions = {}
 ): {
   totalCost: number;
   costByModel: Record<string, number>;
   calls: CostEstimate[];
 } {
   const estimates = calls.map((call) =>
-    calculateCost(call.inputText, call.model, call.estimatedOutput)
+    calculateCost(call.inputText, call.model, call.estimatedOutput, options)
   );
 
   const totalCost = estimates.reduce((sum, est) => sum + est.totalCost, 0);
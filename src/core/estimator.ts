@@ -0,0 +1,282 @@
+/**
+ * Offline token estimation for models without a public tokenizer
+ * Counts characters by class, weights them per provider, scales the result by
+ * content type, and reports a low/high range based on content type (or on
+ * calibration samples).
+ */
+
+import { readFileSync } from 'fs';
+
+export type CharClass = 'letter' | 'digit' | 'space' | 'punct' | 'cjk' | 'other';
+export type ContentType = 'prose' | 'code' | 'json' | 'cjk';
+
+export interface TokenRange {
+  low: number;
+  high: number;
+}
+
+export interface TokenEstimate extends TokenRange {
+  tokens: number;
+  contentType: ContentType;
+}
+
+/**
+ * Estimator weights (tokens per character), per-content-type scaling and relative uncertainty
+ */
+export interface EstimatorProfile {
+  weights: Record<CharClass, number>;
+  factors: Record<ContentType, number>;
+  uncertainty: Record<ContentType, number>;
+  samples: number;
+}
+
+export interface CalibrationSample {
+  text: string;
+  tokens: number;
+}
+
+const CHAR_CLASSES: CharClass[] = ['letter', 'digit', 'space', 'punct', 'cjk', 'other'];
+const CONTENT_TYPES: ContentType[] = ['prose', 'code', 'json', 'cjk'];
+
+// Code and JSON tokenize less densely than their character mix suggests
+// (identifiers, quoted keys and escapes break up common merges)
+const DEFAULT_FACTORS: Record<ContentType, number> = {
+  prose: 1.0,
+  code: 1.1,
+  json: 1.15,
+  cjk: 1.0,
+};
+
+// Only this much of the input is inspected to guess its content type
+const SNIFF_CHARS = 16_384;
+
+const DEFAULT_UNCERTAINTY: Record<ContentType, number> = {
+  prose: 0.10,
+  code: 0.20,
+  json: 0.20,
+  cjk: 0.30,
+};
+
+/**
+ * Default profiles, tuned so English prose lands near 4 characters per token
+ */
+export const DEFAULT_PROFILES: Record<string, EstimatorProfile> = {
+  'anthropic-estimate': {
+    weights: { letter: 0.28, digit: 0.4, space: 0.05, punct: 0.6, cjk: 1.0, other: 0.6 },
+    factors: DEFAULT_FACTORS,
+    uncertainty: DEFAULT_UNCERTAINTY,
+    samples: 0,
+  },
+  'google-estimate': {
+    // Gemini splits numbers into single digits and has a large multilingual vocabulary
+    weights: { letter: 0.26, digit: 1.0, space: 0.05, punct: 0.5, cjk: 0.7, other: 0.45 },
+    factors: DEFAULT_FACTORS,
+    uncertainty: DEFAULT_UNCERTAINTY,
+    samples: 0,
+  },
+};
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Count characters by class
+ */
+export function classifyCharacters(text: string): Record<CharClass, number> {
+  const counts: Record<CharClass, number> = { letter: 0, digit: 0, space: 0, punct: 0, cjk: 0, other: 0 };
+
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if ((code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a)) counts.letter++;
+    else if (code >= 0x30 && code <= 0x39) counts.digit++;
+    else if (code === 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) counts.space++;
+    else if (code < 0x80) counts.punct++;
+    else if (CJK_PATTERN.test(ch)) counts.cjk++;
+    else counts.other++;
+  }
+
+  return counts;
+}
+
+/**
+ * Whether a sample looks like JSON: parsed when it is the whole input, else judged by its opening
+ */
+function looksLikeJson(sample: string, complete: boolean): boolean {
+  if (!sample.startsWith('{') && !sample.startsWith('[')) return false;
+  if (!complete) {
+    return /^(?:\{\s*["}]|\[\s*(?:["{[\]\d-]|true|false|null))/.test(sample);
+  }
+  try {
+    JSON.parse(sample);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Guess the kind of content, which scales the estimate and drives the uncertainty band
+ * Beyond the character counts, only a bounded prefix of the text is inspected.
+ */
+export function detectContentType(text: string, counts: Record<CharClass, number> = classifyCharacters(text)): ContentType {
+  const visible = text.length - counts.space;
+  if (visible === 0) return 'prose';
+
+  if (counts.cjk / visible > 0.3) return 'cjk';
+
+  const start = text.search(/\S/);
+  const complete = text.length - start <= SNIFF_CHARS;
+  const sample = text.slice(start, start + SNIFF_CHARS).trimEnd();
+  if (looksLikeJson(sample, complete)) return 'json';
+
+  const codeChars = (sample.match(/[{}()[\];=<>]/g) || []).length;
+  const sampleVisible = (sample.match(/\S/g) || []).length;
+  if (codeChars / sampleVisible > 0.04) return 'code';
+
+  return 'prose';
+}
+
+function weightedSum(counts: Record<CharClass, number>, weights: Record<CharClass, number>): number {
+  return CHAR_CLASSES.reduce((sum, cls) => sum + counts[cls] * weights[cls], 0);
+}
+
+/**
+ * Estimate tokens with a low/high range
+ */
+export function estimateTokens(text: string, profile: EstimatorProfile): TokenEstimate {
+  if (!text) {
+    return { tokens: 0, low: 0, high: 0, contentType: 'prose' };
+  }
+
+  const counts = classifyCharacters(text);
+  const contentType = detectContentType(text, counts);
+  const tokens = Math.max(1, Math.ceil(weightedSum(counts, profile.weights) * profile.factors[contentType]));
+  const uncertainty = profile.uncertainty[contentType];
+
+  return {
+    tokens,
+    low: Math.max(1, Math.floor(tokens * (1 - uncertainty))),
+    high: Math.ceil(tokens * (1 + uncertainty)),
+    contentType,
+  };
+}
+
+/**
+ * Solve a small linear system with Gaussian elimination
+ */
+function solve(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Fit estimator weights to (text, true token count) samples
+ * Uses ridge regression towards the base weights, so character classes
+ * missing from the samples keep their defaults.
+ */
+export function calibrateProfile(base: EstimatorProfile, samples: CalibrationSample[]): EstimatorProfile {
+  if (samples.length === 0) return base;
+
+  const features = samples.map((sample) => classifyCharacters(sample.text));
+  const n = CHAR_CLASSES.length;
+  const xtx = Array.from({ length: n }, () => new Array(n).fill(0));
+  const xty = new Array(n).fill(0);
+
+  features.forEach((counts, s) => {
+    CHAR_CLASSES.forEach((a, i) => {
+      xty[i] += counts[a] * samples[s].tokens;
+      CHAR_CLASSES.forEach((b, j) => {
+        xtx[i][j] += counts[a] * counts[b];
+      });
+    });
+  });
+
+  const trace = xtx.reduce((sum, row, i) => sum + row[i], 0);
+  const lambda = (trace / n) * 1e-3 + 1e-6;
+  CHAR_CLASSES.forEach((cls, i) => {
+    xtx[i][i] += lambda;
+    xty[i] += lambda * base.weights[cls];
+  });
+
+  const solution = solve(xtx, xty);
+  const weights = Object.fromEntries(
+    CHAR_CLASSES.map((cls, i) => [cls, Number.isFinite(solution[i]) ? Math.max(0, solution[i]) : base.weights[cls]])
+  ) as Record<CharClass, number>;
+
+  // Factors: median ratio of true to weighted count per content type
+  const types = samples.map((sample, s) => detectContentType(sample.text, features[s]));
+  const ratios: Record<ContentType, number[]> = { prose: [], code: [], json: [], cjk: [] };
+  samples.forEach((sample, s) => {
+    const estimate = weightedSum(features[s], weights);
+    if (sample.tokens > 0 && estimate > 0) ratios[types[s]].push(sample.tokens / estimate);
+  });
+  const factors = Object.fromEntries(
+    CONTENT_TYPES.map((type) => {
+      const sorted = ratios[type].sort((a, b) => a - b);
+      return [type, sorted.length < 3 ? base.factors[type] : sorted[Math.floor(sorted.length / 2)]];
+    })
+  ) as Record<ContentType, number>;
+
+  // Uncertainty: 90th percentile of relative error per content type
+  const errors: Record<ContentType, number[]> = { prose: [], code: [], json: [], cjk: [] };
+  samples.forEach((sample, s) => {
+    if (sample.tokens <= 0) return;
+    const estimate = weightedSum(features[s], weights) * factors[types[s]];
+    errors[types[s]].push(Math.abs(estimate - sample.tokens) / sample.tokens);
+  });
+
+  const uncertainty = Object.fromEntries(
+    CONTENT_TYPES.map((type) => {
+      const errs = errors[type].sort((a, b) => a - b);
+      if (errs.length < 3) return [type, base.uncertainty[type]];
+      return [type, Math.max(0.02, errs[Math.min(errs.length - 1, Math.floor(errs.length * 0.9))])];
+    })
+  ) as Record<ContentType, number>;
+
+  return { weights, factors, uncertainty, samples: samples.length };
+}
+
+/**
+ * Load calibration samples from a JSON array or JSONL file
+ * Each entry is { "text": "...", "tokens": 123 }.
+ */
+export function loadCalibrationSamples(path: string): CalibrationSample[] {
+  const content = readFileSync(path, 'utf-8').trim();
+
+  let entries: unknown[];
+  try {
+    entries = content.startsWith('[')
+      ? JSON.parse(content)
+      : content.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line));
+  } catch (error) {
+    throw new Error(`Invalid calibration file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return entries.map((entry, index) => {
+    const sample = entry as Partial<CalibrationSample>;
+    if (typeof sample.text !== 'string' || typeof sample.tokens !== 'number') {
+      throw new Error(`Invalid calibration sample ${index} in ${path}: expected { text, tokens }`);
+    }
+    return { text: sample.text, tokens: sample.tokens };
+  });
+}
@@ -0,0 +1,139 @@
+/**
+ * Where a prompt's tokens go: per-line, per-heading and per-code-block breakdowns
+ */
+
+import { getModelPricing } from '../data/pricing.js';
+import { getEffectiveRates } from './cost-calculator.js';
+import { countTokens } from './tokenizer.js';
+
+export const EXPLAIN_MODES = ['line', 'heading', 'code'] as const;
+
+export type ExplainMode = (typeof EXPLAIN_MODES)[number];
+
+export interface ExplainSection {
+  label: string;
+  preview: string; // First non-blank line, truncated
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  characters: number;
+  tokens: number;
+  share: number; // Percent of the total
+  cost: number; // Input cost with the chosen model
+}
+
+export interface ExplainReport {
+  model: string;
+  mode: ExplainMode;
+  tokenizer: string;
+  exactTokens: boolean;
+  totalTokens: number; // The whole input; sections can sum slightly differently at boundaries
+  totalCost: number;
+  sections: ExplainSection[];
+}
+
+interface RawSection {
+  label: string;
+  startLine: number;
+  lines: string[];
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Split lines into sections: one per line, per markdown heading, or alternating prose and fenced code
+ * Headings inside code fences don't start sections.
+ */
+function splitSections(lines: string[], mode: ExplainMode): RawSection[] {
+  if (mode === 'line') {
+    return lines.map((line, index) => ({ label: `L${index + 1}`, startLine: index + 1, lines: [line] }));
+  }
+
+  const sections: RawSection[] = [];
+  let current: RawSection | null = null;
+  let fence: string | null = null; // Open fence marker while inside a code block
+  const open = (label: string, startLine: number): RawSection => {
+    current = { label, startLine, lines: [] };
+    sections.push(current);
+    return current;
+  };
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const fenceMatch = FENCE.exec(line);
+    const closesFence = Boolean(fence && fenceMatch && fenceMatch[1] === fence);
+
+    if (mode === 'heading') {
+      const heading = !fence && HEADING.exec(line);
+      const section = heading
+        ? open(`${heading[1]} ${heading[2]}`, lineNumber)
+        : current || open('(before first heading)', lineNumber);
+      section.lines.push(line);
+      if (closesFence) {
+        fence = null;
+      } else if (fenceMatch && !fence) {
+        fence = fenceMatch[1];
+      }
+      return;
+    }
+
+    // code: fenced blocks are sections of their own, the text between them another
+    if (fenceMatch && !fence) {
+      fence = fenceMatch[1];
+      const lang = line.trim().slice(fence.length).trim().split(/\s/)[0];
+      open(lang ? `code (${lang})` : 'code', lineNumber).lines.push(line);
+      return;
+    }
+    (current || open('text', lineNumber)).lines.push(line);
+    if (closesFence) {
+      fence = null;
+      current = null;
+    }
+  });
+
+  return sections;
+}
+
+/**
+ * Count and price each section of the input
+ */
+export function explainTokens(text: string, model: string, mode: ExplainMode = 'heading'): ExplainReport {
+  const pricing = getModelPricing(model);
+  if (!pricing) {
+    throw new Error(`Unknown model: ${model}`);
+  }
+  if (!EXPLAIN_MODES.includes(mode)) {
+    throw new Error(`Explain mode must be one of: ${EXPLAIN_MODES.join(', ')}`);
+  }
+
+  const total = countTokens(text, model);
+  const { rates } = getEffectiveRates(pricing, total.tokens);
+  const lines = text.split('\n');
+
+  const sections = splitSections(lines, mode).map((section, index, all): ExplainSection => {
+    // Keep the newline that ends each section (except the last) with it
+    const content = section.lines.join('\n') + (index < all.length - 1 ? '\n' : '');
+    const tokens = countTokens(content, model).tokens;
+    const preview = (section.lines.find((line) => line.trim()) || '').trim();
+    return {
+      label: section.label,
+      preview: preview.length > 60 ? `${preview.slice(0, 57)}...` : preview,
+      startLine: section.startLine,
+      endLine: section.startLine + section.lines.length - 1,
+      characters: content.length,
+      tokens,
+      share: total.tokens ? (tokens / total.tokens) * 100 : 0,
+      cost: (tokens * rates.inputPricePerMillion) / 1_000_000,
+    };
+  });
+
+  return {
+    model,
+    mode,
+    tokenizer: total.tokenizer,
+    exactTokens: total.exact,
+    totalTokens: total.tokens,
+    totalCost: (total.tokens * rates.inputPricePerMillion) / 1_000_000,
+    sections,
+  };
+}
@@ -0,0 +1,340 @@
+/**
+ * Hugging Face tokenizer.json support (BPE models)
+ * Covers byte-level BPE (Llama 3, Qwen, DeepSeek) and SentencePiece-style
+ * BPE with byte fallback (Llama 2, Mistral).
+ */
+
+import { readFileSync } from 'fs';
+import { basename, resolve } from 'path';
+import { registerTokenizer, setModelTokenizer, type Tokenizer } from './tokenizer.js';
+
+interface HFComponent {
+  type: string;
+  [key: string]: any;
+}
+
+export interface HFTokenizerJson {
+  normalizer?: HFComponent | null;
+  pre_tokenizer?: HFComponent | null;
+  model: {
+    type?: string;
+    vocab: Record<string, number>;
+    merges: Array<string | [string, string]>;
+    unk_token?: string | null;
+    byte_fallback?: boolean;
+    ignore_merges?: boolean;
+  };
+}
+
+type Normalizer = (text: string) => string;
+type PreTokenizer = (pieces: string[]) => string[];
+
+const GPT2_PATTERN = "'s|'t|'re|'ve|'m|'ll|'d| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+";
+const METASPACE = '▁';
+
+/**
+ * GPT-2 byte-to-unicode table used by byte-level BPE vocabularies
+ */
+const BYTE_TO_UNICODE: string[] = (() => {
+  const table: string[] = new Array(256);
+  const printable = (b: number) =>
+    (b >= 0x21 && b <= 0x7e) || (b >= 0xa1 && b <= 0xac) || (b >= 0xae && b <= 0xff);
+
+  let next = 256;
+  for (let b = 0; b < 256; b++) {
+    table[b] = String.fromCharCode(printable(b) ? b : next++);
+  }
+  return table;
+})();
+
+const utf8 = new TextEncoder();
+
+/**
+ * Convert an Oniguruma-style pattern into a JS regex source
+ * JS lacks scoped flags, so (?i:...) groups are expanded to [xX] classes.
+ */
+function toJsPattern(pattern: string): string {
+  let out = '';
+  let i = 0;
+  while (i < pattern.length) {
+    if (pattern.startsWith('(?i:', i)) {
+      let depth = 1;
+      let j = i + 4;
+      let inClass = false;
+      let group = '';
+      while (j < pattern.length && depth > 0) {
+        const ch = pattern[j];
+        if (ch === '\\') {
+          group += ch + pattern[j + 1];
+          j += 2;
+          continue;
+        }
+        if (ch === '[') inClass = true;
+        if (ch === ']') inClass = false;
+        if (!inClass && ch === '(') depth++;
+        if (!inClass && ch === ')') depth--;
+        if (depth > 0) {
+          group += !inClass && /[a-z]/i.test(ch) ? `[${ch.toLowerCase()}${ch.toUpperCase()}]` : ch;
+        }
+        j++;
+      }
+      out += `(?:${group})`;
+      i = j;
+      continue;
+    }
+    out += pattern[i];
+    i++;
+  }
+  return out;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function patternToRegex(pattern: { Regex?: string; String?: string }): RegExp {
+  const source = pattern.Regex !== undefined ? toJsPattern(pattern.Regex) : escapeRegex(pattern.String || '');
+  return new RegExp(source, 'gu');
+}
+
+/**
+ * Split text by a regex, keeping both matches and the gaps between them
+ */
+function splitByRegex(text: string, regex: RegExp, behavior: string, invert: boolean = false): string[] {
+  const segments: Array<{ text: string; match: boolean }> = [];
+  let last = 0;
+  for (const m of text.matchAll(regex)) {
+    if (m[0].length === 0) continue;
+    if (m.index! > last) segments.push({ text: text.slice(last, m.index), match: invert });
+    segments.push({ text: m[0], match: !invert });
+    last = m.index! + m[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: invert });
+
+  const pieces: string[] = [];
+  switch (behavior) {
+    case 'Removed':
+      segments.forEach((s) => !s.match && pieces.push(s.text));
+      break;
+    case 'MergedWithPrevious':
+      segments.forEach((s) => {
+        if (s.match && pieces.length > 0) pieces[pieces.length - 1] += s.text;
+        else pieces.push(s.text);
+      });
+      break;
+    case 'MergedWithNext': {
+      let carry = '';
+      segments.forEach((s) => {
+        if (s.match) carry += s.text;
+        else {
+          pieces.push(carry + s.text);
+          carry = '';
+        }
+      });
+      if (carry) pieces.push(carry);
+      break;
+    }
+    default:
+      // Isolated / Contiguous
+      segments.forEach((s) => pieces.push(s.text));
+  }
+
+  return pieces.filter((p) => p.length > 0);
+}
+
+function buildNormalizer(config: HFComponent | null | undefined): Normalizer {
+  if (!config) return (text) => text;
+
+  switch (config.type) {
+    case 'Sequence': {
+      const steps = (config.normalizers as HFComponent[]).map(buildNormalizer);
+      return (text) => steps.reduce((acc, step) => step(acc), text);
+    }
+    case 'Prepend':
+      return (text) => (text ? config.prepend + text : text);
+    case 'Replace': {
+      const regex = patternToRegex(config.pattern);
+      return (text) => text.replace(regex, config.content);
+    }
+    case 'NFC':
+    case 'NFD':
+    case 'NFKC':
+    case 'NFKD':
+      return (text) => text.normalize(config.type);
+    case 'Lowercase':
+      return (text) => text.toLowerCase();
+    case 'Strip':
+      return (text) => {
+        let out = text;
+        if (config.strip_left !== false) out = out.trimStart();
+        if (config.strip_right !== false) out = out.trimEnd();
+        return out;
+      };
+    default:
+      throw new Error(`Unsupported tokenizer normalizer: ${config.type}`);
+  }
+}
+
+function buildPreTokenizer(config: HFComponent | null | undefined): PreTokenizer {
+  // SentencePiece-style files have no pre-tokenizer; chunk at metaspace
+  // boundaries so BPE runs per word (merges never cross them)
+  if (!config) {
+    const regex = new RegExp(`${METASPACE}*[^${METASPACE}]+|${METASPACE}+`, 'gu');
+    return (pieces) => pieces.flatMap((p) => p.match(regex) || []);
+  }
+
+  switch (config.type) {
+    case 'Sequence': {
+      const steps = (config.pretokenizers as HFComponent[]).map(buildPreTokenizer);
+      return (pieces) => steps.reduce((acc, step) => step(acc), pieces);
+    }
+    case 'Split': {
+      const regex = patternToRegex(config.pattern);
+      return (pieces) => pieces.flatMap((p) => splitByRegex(p, regex, config.behavior, config.invert));
+    }
+    case 'ByteLevel': {
+      const regex = new RegExp(GPT2_PATTERN, 'gu');
+      return (pieces) => {
+        let out = pieces;
+        if (config.add_prefix_space && out.length > 0 && !out[0].startsWith(' ')) {
+          out = [' ' + out[0], ...out.slice(1)];
+        }
+        if (config.use_regex !== false) {
+          out = out.flatMap((p) => p.match(regex) || []);
+        }
+        return out.map((p) => Array.from(utf8.encode(p), (b) => BYTE_TO_UNICODE[b]).join(''));
+      };
+    }
+    case 'Metaspace': {
+      const replacement: string = config.replacement || METASPACE;
+      const scheme: string = config.prepend_scheme || (config.add_prefix_space === false ? 'never' : 'always');
+      const regex = new RegExp(escapeRegex(replacement), 'gu');
+      return (pieces) =>
+        pieces.flatMap((p, index) => {
+          let text = p.replace(/ /g, replacement);
+          if (!text.startsWith(replacement) && (scheme === 'always' || (scheme === 'first' && index === 0))) {
+            text = replacement + text;
+          }
+          return config.split === false ? [text] : splitByRegex(text, regex, 'MergedWithNext');
+        });
+    }
+    case 'Whitespace':
+      return (pieces) => pieces.flatMap((p) => p.match(/\w+|[^\w\s]+/gu) || []);
+    case 'WhitespaceSplit':
+      return (pieces) => pieces.flatMap((p) => p.split(/\s+/u).filter(Boolean));
+    case 'Digits': {
+      const regex = config.individual_digits ? /\p{N}/gu : /\p{N}+/gu;
+      return (pieces) => pieces.flatMap((p) => splitByRegex(p, regex, 'Isolated'));
+    }
+    case 'Punctuation':
+      return (pieces) => pieces.flatMap((p) => splitByRegex(p, /\p{P}/gu, config.behavior || 'Isolated'));
+    default:
+      throw new Error(`Unsupported tokenizer pre_tokenizer: ${config.type}`);
+  }
+}
+
+/**
+ * Build a BPE encoder (text to token IDs) from a parsed tokenizer.json
+ * Symbols with no ID (no byte fallback or unk_token) encode as -1.
+ */
+export function buildBpeEncoder(json: HFTokenizerJson): (text: string) => number[] {
+  const { model } = json;
+  if (model.type && model.type !== 'BPE') {
+    throw new Error(`Unsupported tokenizer model type: ${model.type} (only BPE is supported)`);
+  }
+  if (!model.vocab || !Array.isArray(model.merges)) {
+    throw new Error('tokenizer.json is missing model.vocab or model.merges');
+  }
+
+  const vocab = model.vocab;
+  const ranks = new Map<string, number>();
+  model.merges.forEach((merge, rank) => {
+    const key = Array.isArray(merge) ? `${merge[0]} ${merge[1]}` : merge;
+    if (!ranks.has(key)) ranks.set(key, rank);
+  });
+
+  const normalize = buildNormalizer(json.normalizer);
+  const preTokenize = buildPreTokenizer(json.pre_tokenizer);
+  const unk = model.unk_token ? vocab[model.unk_token] ?? -1 : -1;
+  const cache = new Map<string, number[]>();
+
+  // Out-of-vocabulary symbols become <0xXX> byte tokens with byte fallback, else unk
+  const encodeSymbol = (symbol: string): number[] => {
+    if (vocab[symbol] !== undefined) return [vocab[symbol]];
+    if (!model.byte_fallback) return [unk];
+    return Array.from(utf8.encode(symbol), (byte) => {
+      const id = vocab[`<0x${byte.toString(16).toUpperCase().padStart(2, '0')}>`];
+      return id ?? unk;
+    });
+  };
+
+  const encodeWord = (word: string): number[] => {
+    const cached = cache.get(word);
+    if (cached !== undefined) return cached;
+
+    let result: number[];
+    if (model.ignore_merges && vocab[word] !== undefined) {
+      result = [vocab[word]];
+    } else {
+      const symbols = Array.from(word);
+      while (symbols.length > 1) {
+        let best = -1;
+        let bestRank = Infinity;
+        for (let i = 0; i < symbols.length - 1; i++) {
+          const rank = ranks.get(`${symbols[i]} ${symbols[i + 1]}`);
+          if (rank !== undefined && rank < bestRank) {
+            bestRank = rank;
+            best = i;
+          }
+        }
+        if (best === -1) break;
+        symbols.splice(best, 2, symbols[best] + symbols[best + 1]);
+      }
+      result = symbols.flatMap(encodeSymbol);
+    }
+
+    if (cache.size > 100_000) cache.clear();
+    cache.set(word, result);
+    return result;
+  };
+
+  return (text) => {
+    if (!text) return [];
+    return preTokenize([normalize(text)]).flatMap(encodeWord);
+  };
+}
+
+/**
+ * Load a tokenizer.json file as an exact tokenizer
+ * The file is read lazily on first use, so mapped-but-unused models cost nothing.
+ */
+export function loadHuggingFaceTokenizer(path: string): Tokenizer {
+  const fullPath = resolve(path);
+  let encode: ((text: string) => number[]) | null = null;
+
+  return {
+    name: `hf:${basename(fullPath)}`,
+    exact: true,
+    count(text: string): number {
+      if (!encode) {
+        let json: HFTokenizerJson;
+        try {
+          json = JSON.parse(readFileSync(fullPath, 'utf-8'));
+        } catch (error) {
+          throw new Error(`Failed to load tokenizer ${fullPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        encode = buildBpeEncoder(json);
+      }
+      return encode(text).length;
+    },
+  };
+}
+
+/**
+ * Count a model's tokens with a local tokenizer.json
+ */
+export function useTokenizerFile(model: string, path: string): void {
+  const encoding = `hf:${resolve(path)}`;
+  registerTokenizer(encoding, loadHuggingFaceTokenizer(path));
+  setModelTokenizer(model, encoding);
+}
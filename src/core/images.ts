@@ -0,0 +1,193 @@
+/**
+ * Image input token counting
+ * Reads image dimensions from file headers (PNG, JPEG, GIF, WebP) and applies
+ * each provider's image-token formula.
+ */
+
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+
+export type ImageDetail = 'low' | 'high';
+
+export interface ImageInput {
+  name: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageTokenCount extends ImageInput {
+  tokens: number;
+}
+
+/**
+ * Image-token formulas by provider
+ */
+const IMAGE_FORMULAS: Record<string, (image: ImageInput, detail: ImageDetail, model?: string) => number> = {
+  openai: openaiImageTokens,
+  anthropic: anthropicImageTokens,
+  google: () => 258, // Flat per-image cost
+};
+
+/**
+ * OpenAI image pricing by model family (longest matching prefix wins)
+ * Tile models bill a base plus a per-tile cost; patch models bill 32px patches (capped at 1536)
+ * times a multiplier. Values follow OpenAI's vision pricing docs.
+ */
+type OpenAIImageProfile = { tiles: { base: number; tile: number } } | { patches: { multiplier: number } };
+
+const OPENAI_IMAGE_PROFILES: Record<string, OpenAIImageProfile> = {
+  'gpt-4o': { tiles: { base: 85, tile: 170 } },
+  'gpt-4o-mini': { tiles: { base: 2833, tile: 5667 } },
+  'gpt-4.1': { tiles: { base: 85, tile: 170 } },
+  'gpt-4.1-mini': { patches: { multiplier: 1.62 } },
+  'gpt-4.1-nano': { patches: { multiplier: 2.46 } },
+  'gpt-4.5': { tiles: { base: 85, tile: 170 } },
+  'gpt-5': { tiles: { base: 70, tile: 140 } },
+  'gpt-5-mini': { patches: { multiplier: 1.62 } },
+  'gpt-5-nano': { patches: { multiplier: 2.46 } },
+  'o1': { tiles: { base: 75, tile: 150 } },
+  'o3': { tiles: { base: 75, tile: 150 } },
+  'o4-mini': { patches: { multiplier: 1.72 } },
+};
+
+const DEFAULT_OPENAI_PROFILE: OpenAIImageProfile = OPENAI_IMAGE_PROFILES['gpt-4o'];
+
+function getOpenAIImageProfile(model?: string): OpenAIImageProfile {
+  const name = model?.toLowerCase() || '';
+  const family = Object.keys(OPENAI_IMAGE_PROFILES)
+    .filter((prefix) => name === prefix || name.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return family ? OPENAI_IMAGE_PROFILES[family] : DEFAULT_OPENAI_PROFILE;
+}
+
+/**
+ * OpenAI tile models: base tokens, plus a cost per 512px tile at high detail
+ * High detail fits the image in 2048x2048, then scales the shortest side down to 768.
+ */
+function tileImageTokens(image: ImageInput, detail: ImageDetail, base: number, tile: number): number {
+  if (detail === 'low') return base;
+
+  let { width, height } = image;
+  const fit = Math.min(1, 2048 / Math.max(width, height));
+  width *= fit;
+  height *= fit;
+
+  const shrink = Math.min(1, 768 / Math.min(width, height));
+  width *= shrink;
+  height *= shrink;
+
+  return base + tile * Math.ceil(width / 512) * Math.ceil(height / 512);
+}
+
+/**
+ * OpenAI patch models: 32px patches, scaled down to fit 1536 patches, times the model's multiplier
+ */
+function patchImageTokens(image: ImageInput, multiplier: number): number {
+  const { width, height } = image;
+  let patches = Math.ceil(width / 32) * Math.ceil(height / 32);
+  if (patches > 1536) {
+    let shrink = Math.sqrt((32 * 32 * 1536) / (width * height));
+    shrink *= Math.min(
+      Math.floor((width * shrink) / 32) / ((width * shrink) / 32),
+      Math.floor((height * shrink) / 32) / ((height * shrink) / 32)
+    );
+    patches = Math.min(1536, Math.ceil((width * shrink) / 32) * Math.ceil((height * shrink) / 32));
+  }
+  return Math.ceil(patches * multiplier);
+}
+
+function openaiImageTokens(image: ImageInput, detail: ImageDetail, model?: string): number {
+  const profile = getOpenAIImageProfile(model);
+  return 'patches' in profile
+    ? patchImageTokens(image, profile.patches.multiplier)
+    : tileImageTokens(image, detail, profile.tiles.base, profile.tiles.tile);
+}
+
+/**
+ * Anthropic: (width * height) / 750, after resizing to a 1568px long edge and ~1.15 megapixels
+ */
+function anthropicImageTokens(image: ImageInput): number {
+  const { width, height } = image;
+  const scale = Math.min(1, 1568 / Math.max(width, height), Math.sqrt(1_150_000 / (width * height)));
+
+  return Math.ceil((width * scale * (height * scale)) / 750);
+}
+
+/**
+ * Count tokens for an image; providers without a known formula use OpenAI's (gpt-4o) tile math
+ * The model picks the OpenAI family formula (gpt-4o-mini, o-series, GPT-4.1/5 patch models).
+ */
+export function countImageTokens(
+  image: ImageInput,
+  provider: string,
+  detail: ImageDetail = 'high',
+  model?: string
+): number {
+  const formula = IMAGE_FORMULAS[provider.toLowerCase()] || IMAGE_FORMULAS.openai;
+  return formula(image, detail, model);
+}
+
+/**
+ * Read width and height from an image file's header
+ */
+export function readImageDimensions(data: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR chunk follows the 8-byte signature
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen size
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  // WebP: lossy (VP8), lossless (VP8L) or extended (VP8X)
+  if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = data.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Load an image file's dimensions
+ */
+export function loadImage(path: string): ImageInput {
+  let data: Buffer;
+  try {
+    data = readFileSync(path);
+  } catch {
+    throw new Error(`Cannot read image: ${path}`);
+  }
+
+  const dimensions = readImageDimensions(data);
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+    throw new Error(`Unsupported image format (expected PNG, JPEG, GIF or WebP): ${path}`);
+  }
+
+  return { name: basename(path), ...dimensions };
+}
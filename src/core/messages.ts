@@ -0,0 +1,186 @@
+/**
+ * Token counting for chat-formatted requests (messages arrays)
+ */
+
+import { getModelPricing } from '../data/pricing.js';
+import { getTokenizer, type TokenCount } from './tokenizer.js';
+
+export interface ChatContentPart {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * OpenAI assistant tool call (arguments are a JSON string)
+ */
+export interface ChatToolCall {
+  id?: string;
+  type?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+export interface ChatMessage {
+  role: string;
+  content: string | ChatContentPart[] | null;
+  name?: string;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * OpenAI- or Anthropic-style request body
+ */
+export interface ChatRequest {
+  model?: string;
+  system?: string | ChatContentPart[];
+  messages: ChatMessage[];
+}
+
+export interface MessageTokenCount {
+  index: number;
+  role: string;
+  name?: string;
+  contentTokens: number;
+  overheadTokens: number;
+  tokens: number;
+}
+
+export interface ChatTokenCount extends TokenCount {
+  messages: MessageTokenCount[];
+  overheadTokens: number;
+}
+
+/**
+ * Per-provider chat framing overhead
+ * OpenAI values follow the OpenAI cookbook; the others are estimates
+ * derived from each provider's chat template.
+ */
+interface ChatFraming {
+  perMessage: number;
+  perName: number;
+  replyPriming: number;
+  countRole: boolean;
+}
+
+const CHAT_FRAMING: Record<string, ChatFraming> = {
+  openai: { perMessage: 3, perName: 1, replyPriming: 3, countRole: true },
+  anthropic: { perMessage: 5, perName: 1, replyPriming: 5, countRole: false },
+  google: { perMessage: 5, perName: 1, replyPriming: 3, countRole: true },
+  meta: { perMessage: 4, perName: 1, replyPriming: 4, countRole: true },
+};
+
+function getChatFraming(model: string): ChatFraming {
+  const provider = getModelPricing(model)?.provider.toLowerCase() || 'openai';
+  return CHAT_FRAMING[provider] || CHAT_FRAMING.openai;
+}
+
+/**
+ * Flatten message content into the text the model sees
+ * Anthropic tool_use inputs are serialized as JSON; tool_result content is flattened in turn.
+ */
+export function getContentText(content: ChatMessage['content'] | ChatRequest['system']): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+
+  return content
+    .map((part) => {
+      if (typeof part.text === 'string') return part.text;
+      if (part.type === 'tool_use') return JSON.stringify({ name: part.name, input: part.input ?? {} });
+      if (part.type === 'tool_result') return getContentText(part.content as ChatMessage['content']);
+      return '';
+    })
+    .join('\n');
+}
+
+/**
+ * A message's content plus its OpenAI tool calls (name and JSON arguments)
+ */
+function getMessageText(message: ChatMessage): string {
+  const calls = (message.tool_calls || []).map((call) =>
+    [call.function?.name, call.function?.arguments].filter(Boolean).join('\n')
+  );
+  return [getContentText(message.content), ...calls].filter(Boolean).join('\n');
+}
+
+/**
+ * Parse a JSON request body into a chat request
+ */
+export function parseChatRequest(json: string): ChatRequest {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid chat request JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const body = Array.isArray(data) ? { messages: data } : (data as Partial<ChatRequest>);
+  if (!body || !Array.isArray(body.messages)) {
+    throw new Error('Chat request must contain a "messages" array');
+  }
+
+  body.messages.forEach((message, index) => {
+    if (!message || typeof message.role !== 'string') {
+      throw new Error(`Message ${index} is missing a "role"`);
+    }
+  });
+
+  return body as ChatRequest;
+}
+
+/**
+ * Count tokens for a chat request, including per-message framing
+ */
+export function countChatTokens(request: ChatRequest, model: string): ChatTokenCount {
+  const framing = getChatFraming(model);
+  const tokenizer = getTokenizer(model);
+
+  // Anthropic-style bodies carry the system prompt outside the messages array
+  const messages: ChatMessage[] = request.system
+    ? [{ role: 'system', content: getContentText(request.system) }, ...request.messages]
+    : request.messages;
+
+  let characters = 0;
+  let low = 0;
+  let high = 0;
+  const counts = messages.map((message, index): MessageTokenCount => {
+    const text = getMessageText(message);
+    characters += text.length;
+
+    const estimate = text ? tokenizer.estimate?.(text) : undefined;
+    const contentTokens = estimate ? estimate.tokens : text ? tokenizer.count(text) : 0;
+    low += (estimate ? estimate.low : contentTokens) - contentTokens;
+    high += (estimate ? estimate.high : contentTokens) - contentTokens;
+    let overheadTokens = framing.perMessage;
+    if (framing.countRole) {
+      overheadTokens += tokenizer.count(message.role);
+    }
+    if (message.name) {
+      overheadTokens += framing.perName + tokenizer.count(message.name);
+    }
+
+    return {
+      index,
+      role: message.role,
+      name: message.name,
+      contentTokens,
+      overheadTokens,
+      tokens: contentTokens + overheadTokens,
+    };
+  });
+
+  const overheadTokens =
+    counts.reduce((sum, count) => sum + count.overheadTokens, 0) + framing.replyPriming;
+  const tokens = counts.reduce((sum, count) => sum + count.tokens, 0) + framing.replyPriming;
+
+  return {
+    tokens,
+    characters,
+    model,
+    tokenizer: tokenizer.name,
+    exact: tokenizer.exact,
+    range: tokenizer.estimate ? { low: tokens + low, high: tokens + high } : undefined,
+    messages: counts,
+    overheadTokens,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Month-by-month spend projection for a prompt across models and traffic scenarios
+ */
+
+import { calculateCost, type CostEstimate, type CostInput, type CostOptions } from './cost-calculator.js';
+
+export interface ProjectionOptions {
+  callsPerDay: number; // In the first month
+  growthPercent?: number; // Month over month
+  months?: number; // Horizon (default 12)
+  cacheHitRate?: number; // 0-1: calls that read the cached prefix instead of writing it
+  batchShare?: number; // 0-1: calls sent through the Batch API
+  start?: Date; // First month (default: the current month)
+}
+
+export interface ProjectedMonth {
+  month: string; // YYYY-MM
+  calls: number;
+}
+
+export interface ModelProjection {
+  model: string;
+  costPerCall: number; // Blended over cache hits and batch share
+  costs: number[]; // Per month, aligned with SpendProjection.months
+  total: number;
+}
+
+export interface SpendProjection {
+  months: ProjectedMonth[];
+  current: ModelProjection;
+  alternatives: ModelProjection[]; // Cheapest first
+  skipped: Array<{ model: string; reason: string }>;
+  assumptions: {
+    inputTokens: number;
+    outputTokens: number;
+    callsPerDay: number;
+    growthPercent: number;
+    cacheHitRate: number;
+    batchShare: number;
+  };
+}
+
+/**
+ * Average cost of one call: cache misses write the prefix, hits read it
+ */
+function blendedCost(estimate: CostEstimate, cacheHitRate: number): number {
+  if (!estimate.caching) return estimate.totalCost;
+  return (1 - cacheHitRate) * estimate.caching.firstCallCost + cacheHitRate * estimate.caching.steadyStateCost;
+}
+
+/**
+ * Cost per call for a model under the cache and batch assumptions
+ */
+function costPerCall(
+  input: CostInput,
+  model: string,
+  outputTokens: number,
+  options: CostOptions,
+  cacheHitRate: number,
+  batchShare: number
+): { estimate: CostEstimate; cost: number } {
+  const standard = calculateCost(input, model, outputTokens, { ...options, batch: false });
+  if (!standard.fit.fits) {
+    throw new Error(standard.fit.problems.join('; '));
+  }
+
+  let cost = blendedCost(standard, cacheHitRate);
+  if (batchShare > 0) {
+    const batched = calculateCost(input, model, outputTokens, { ...options, batch: true });
+    cost = (1 - batchShare) * cost + batchShare * blendedCost(batched, cacheHitRate);
+  }
+  return { estimate: standard, cost };
+}
+
+/**
+ * Project monthly spend for the current model and alternatives
+ * Models that can't take the request are skipped, as in compareCosts.
+ */
+export function projectSpend(
+  input: CostInput,
+  model: string,
+  alternativeModels: string[],
+  outputTokens: number,
+  options: CostOptions,
+  projection: ProjectionOptions
+): SpendProjection {
+  const growthPercent = projection.growthPercent ?? 0;
+  const cacheHitRate = projection.cacheHitRate ?? 0;
+  const batchShare = projection.batchShare ?? 0;
+  if (!(projection.callsPerDay >= 0)) {
+    throw new Error('Calls per day must be a non-negative number');
+  }
+  if (!Number.isFinite(growthPercent) || growthPercent <= -100) {
+    throw new Error('Growth must be a percentage above -100%');
+  }
+  if (cacheHitRate < 0 || cacheHitRate > 1 || batchShare < 0 || batchShare > 1) {
+    throw new Error('Cache hit rate and batch share must be between 0% and 100%');
+  }
+  if (cacheHitRate > 0 && options.cachedPrefix === undefined) {
+    throw new Error('A cache hit rate needs a cached prefix (the cacheable part of the prompt)');
+  }
+
+  const start = projection.start || new Date();
+  const months = Array.from({ length: projection.months ?? 12 }, (_, i): ProjectedMonth => {
+    const date = new Date(start.getFullYear(), start.getMonth() + i, 1);
+    const days = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    return {
+      month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
+      calls: Math.round(projection.callsPerDay * days * Math.pow(1 + growthPercent / 100, i)),
+    };
+  });
+
+  const project = (name: string, cost: number): ModelProjection => {
+    const costs = months.map((month) => month.calls * cost);
+    return { model: name, costPerCall: cost, costs, total: costs.reduce((sum, c) => sum + c, 0) };
+  };
+
+  const current = costPerCall(input, model, outputTokens, options, cacheHitRate, batchShare);
+  const skipped: SpendProjection['skipped'] = [];
+  const alternatives = alternativeModels
+    .flatMap((alternative) => {
+      try {
+        const { cost } = costPerCall(input, alternative, outputTokens, options, cacheHitRate, batchShare);
+        return [project(alternative, cost)];
+      } catch (error) {
+        skipped.push({ model: alternative, reason: error instanceof Error ? error.message : String(error) });
+        return [];
+      }
+    })
+    .sort((a, b) => a.total - b.total);
+
+  return {
+    months,
+    current: project(model, current.cost),
+    alternatives,
+    skipped,
+    assumptions: {
+      inputTokens: current.estimate.inputTokens,
+      outputTokens,
+      callsPerDay: projection.callsPerDay,
+      growthPercent,
+      cacheHitRate,
+      batchShare,
+    },
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * File discovery and per-file costing for the scan command
+ * Expands directories and globs, honoring .gitignore files and an ignore list.
+ */
+
+import { existsSync, openSync, readFileSync, readSync, closeSync, readdirSync, statSync } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+import { calculateBatchCost, type CostOptions } from './cost-calculator.js';
+
+/**
+ * Always skipped, regardless of ignore files
+ */
+const DEFAULT_IGNORES = ['.git/', 'node_modules/'];
+
+export interface ScanOptions {
+  ignore?: string[]; // Extra gitignore-style patterns, relative to cwd
+  gitignore?: boolean; // Honor .gitignore files (default true)
+  cwd?: string;
+}
+
+interface IgnoreRule {
+  base: string; // Directory the pattern is relative to
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+export interface ScannedFile {
+  path: string; // Relative to cwd
+  tokens: number; // Counted with the first model's tokenizer
+  costs: Record<string, number>;
+}
+
+export interface ScanResult {
+  models: string[];
+  files: ScannedFile[];
+  totalTokens: number;
+  totalCosts: Record<string, number>;
+}
+
+/**
+ * Convert a glob to a regular expression (supports **, *, ? and {a,b})
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        pattern += '\\{';
+        continue;
+      }
+      pattern += `(?:${glob.slice(i + 1, end).split(',').map((part) => part.replace(/[.+^$()|[\]\\]/g, '\\$&')).join('|')})`;
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Parse gitignore-style lines into rules relative to base
+ */
+function parseIgnoreRules(lines: string[], base: string): IgnoreRule[] {
+  return lines
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => {
+      const negate = line.startsWith('!');
+      let pattern = negate ? line.slice(1) : line;
+      const dirOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+
+      // Patterns without an inner slash match at any depth
+      const anchored = pattern.includes('/');
+      pattern = pattern.replace(/^\//, '');
+      return {
+        base,
+        regex: globToRegExp(anchored ? pattern : `**/${pattern}`),
+        negate,
+        dirOnly,
+      };
+    });
+}
+
+/**
+ * Last matching rule wins, as in git
+ */
+function isIgnored(path: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    const rel = relative(rule.base, path).split(sep).join('/');
+    if (rel.startsWith('..')) continue;
+    if (rule.regex.test(rel)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+function readGitignore(dir: string): IgnoreRule[] {
+  const path = join(dir, '.gitignore');
+  return existsSync(path) ? parseIgnoreRules(readFileSync(path, 'utf-8').split('\n'), dir) : [];
+}
+
+/**
+ * Treat files with a NUL byte in the first 8KB as binary
+ */
+function isBinaryFile(path: string): boolean {
+  const buffer = Buffer.alloc(8192);
+  const fd = openSync(path, 'r');
+  try {
+    const bytes = readSync(fd, buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytes).includes(0);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * The directory a glob is walked from (its longest literal directory prefix), or null for a plain path
+ */
+export function getGlobRoot(pattern: string, cwd: string = process.cwd()): string | null {
+  const segments = pattern.split('/');
+  const literal = segments.findIndex((segment) => /[*?{]/.test(segment));
+  return literal === -1 ? null : resolve(cwd, segments.slice(0, literal).join('/') || '.');
+}
+
+/**
+ * Rules that apply everywhere: the default ignores, cwd's .gitignore and the ignore list
+ */
+function getBaseRules(cwd: string, options: ScanOptions): IgnoreRule[] {
+  return [
+    ...parseIgnoreRules(DEFAULT_IGNORES, cwd),
+    ...(options.gitignore !== false ? readGitignore(cwd) : []),
+    ...parseIgnoreRules(options.ignore || [], cwd),
+  ];
+}
+
+/**
+ * Whether a walk from root would skip path (itself or one of its parent directories ignored)
+ */
+export function isIgnoredPath(path: string, root: string, options: ScanOptions = {}): boolean {
+  const cwd = resolve(options.cwd || process.cwd());
+  const useGitignore = options.gitignore !== false;
+  const segments = relative(root, path).split(sep).filter(Boolean);
+  if (segments[0] === '..') return false;
+
+  let dir = root;
+  let rules = getBaseRules(cwd, options);
+  for (const [index, segment] of segments.entries()) {
+    if (useGitignore && dir !== cwd) rules = [...rules, ...readGitignore(dir)];
+    const next = join(dir, segment);
+    const isDirectory = index < segments.length - 1 || (existsSync(next) && statSync(next).isDirectory());
+    if (isIgnored(next, isDirectory, rules)) return true;
+    dir = next;
+  }
+  return false;
+}
+
+/**
+ * List root and every directory below it that a walk would enter
+ */
+export function findDirectories(root: string, options: ScanOptions = {}): string[] {
+  const cwd = resolve(options.cwd || process.cwd());
+  const useGitignore = options.gitignore !== false;
+  const dirs: string[] = [];
+
+  const walk = (dir: string, rules: IgnoreRule[]) => {
+    dirs.push(dir);
+    const dirRules = useGitignore && dir !== cwd ? [...rules, ...readGitignore(dir)] : rules;
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory() && !isIgnored(path, true, dirRules)) {
+        walk(path, dirRules);
+      }
+    }
+  };
+
+  walk(root, getBaseRules(cwd, options));
+  return dirs;
+}
+
+/**
+ * Expand paths, directories and globs into a sorted list of text files
+ */
+export function findFiles(patterns: string[], options: ScanOptions = {}): string[] {
+  const cwd = resolve(options.cwd || process.cwd());
+  const useGitignore = options.gitignore !== false;
+  const baseRules = getBaseRules(cwd, options);
+  const files = new Set<string>();
+
+  const walk = (dir: string, rules: IgnoreRule[], match?: RegExp) => {
+    const dirRules = useGitignore && dir !== cwd ? [...rules, ...readGitignore(dir)] : rules;
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (isIgnored(path, entry.isDirectory(), dirRules)) continue;
+
+      if (entry.isDirectory()) {
+        walk(path, dirRules, match);
+      } else if (entry.isFile() && (!match || match.test(relative(cwd, path).split(sep).join('/')))) {
+        files.add(path);
+      }
+    }
+  };
+
+  for (const pattern of patterns) {
+    const path = resolve(cwd, pattern);
+    if (existsSync(path)) {
+      if (statSync(path).isDirectory()) {
+        walk(path, baseRules);
+      } else {
+        files.add(path); // Explicit files are never ignored
+      }
+      continue;
+    }
+
+    // Glob: walk from the longest literal directory prefix
+    const root = getGlobRoot(pattern, cwd);
+    if (!root) {
+      throw new Error(`No such file or directory: ${pattern}`);
+    }
+    if (existsSync(root) && statSync(root).isDirectory()) {
+      walk(root, baseRules, globToRegExp(relative(cwd, resolve(cwd, pattern)).split(sep).join('/')));
+    }
+  }
+
+  return [...files].filter((file) => !isBinaryFile(file)).sort();
+}
+
+/**
+ * Count and price every file for each model
+ */
+export function scanCosts(
+  files: string[],
+  models: string[],
+  estimatedOutputTokens: number = 500,
+  options: CostOptions = {},
+  cwd: string = process.cwd()
+): ScanResult {
+  const texts = files.map((file) => readFileSync(file, 'utf-8'));
+  const batches = models.map((model) =>
+    calculateBatchCost(
+      texts.map((inputText) => ({ inputText, model, estimatedOutput: estimatedOutputTokens })),
+      options
+    )
+  );
+
+  const scanned = files.map((file, index): ScannedFile => ({
+    path: relative(cwd, file) || file,
+    tokens: batches[0].calls[index].inputTokens,
+    costs: Object.fromEntries(models.map((model, m) => [model, batches[m].calls[index].totalCost])),
+  }));
+
+  return {
+    models,
+    files: scanned,
+    totalTokens: scanned.reduce((sum, file) => sum + file.tokens, 0),
+    totalCosts: Object.fromEntries(models.map((model, m) => [model, batches[m].totalCost])),
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Prompt templates filled from a dataset (JSONL, JSON or CSV rows)
+ * Every row is rendered, counted with the model's tokenizer and priced with calculateBatchCost.
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { calculateBatchCost, type CostInput, type CostOptions } from './cost-calculator.js';
+import { parseChatRequest } from './messages.js';
+
+export type DataRow = Record<string, unknown>;
+
+/**
+ * Distribution of a per-call value
+ */
+export interface Distribution {
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface TemplateCall {
+  row: number; // 1-based row in the dataset
+  inputTokens: number;
+  cost: number;
+  fits: boolean;
+}
+
+export interface TemplateReport {
+  model: string;
+  rows: number;
+  totalCost: number;
+  totalInputTokens: number;
+  cost: Distribution;
+  inputTokens: Distribution;
+  calls: TemplateCall[];
+  overflows: Array<{ row: number; inputTokens: number; problems: string[] }>;
+  missingVariables: Record<string, number>; // Variable -> rows without it
+}
+
+const VARIABLE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Read a dotted variable (e.g. {{user.name}}) from a row
+ */
+function lookup(row: DataRow, path: string): unknown {
+  if (path in row) return row[path];
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    row
+  );
+}
+
+/**
+ * Fill {{variables}} from a row; missing variables render empty and are reported
+ * With json, values are escaped for substitution inside JSON strings (chat templates).
+ */
+export function renderTemplate(
+  template: string,
+  row: DataRow,
+  options: { json?: boolean } = {}
+): { text: string; missing: string[] } {
+  const missing: string[] = [];
+  const text = template.replace(VARIABLE, (_match, name: string) => {
+    const value = lookup(row, name);
+    if (value === undefined || value === null) {
+      missing.push(name);
+      return '';
+    }
+    const str = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return options.json ? JSON.stringify(str).slice(1, -1) : str;
+  });
+  return { text, missing };
+}
+
+/**
+ * Parse CSV with a header row (RFC 4180 quoting, including newlines inside quotes)
+ */
+export function parseCsv(content: string): DataRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter((r) => !(r.length === 1 && r[0] === ''));
+  if (!header) return [];
+  const columns = header.map((column, index) => (index === 0 ? column.replace(/^\uFEFF/, '') : column).trim());
+  return rows.map((row) => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])));
+}
+
+/**
+ * Load dataset rows: .csv, .json (an array of objects) or JSONL
+ */
+export function loadDataset(path: string): DataRow[] {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new Error(`Cannot read dataset ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const extension = extname(path).toLowerCase();
+  if (extension === '.csv') {
+    return parseCsv(content);
+  }
+
+  const isRow = (value: unknown): value is DataRow => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+  if (extension === '.json') {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data) || !data.every(isRow)) {
+      throw new Error(`${path} must contain an array of objects`);
+    }
+    return data;
+  }
+
+  return content.split('\n').flatMap((line, index) => {
+    if (!line.trim()) return [];
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new Error(`${path}:${index + 1}: invalid JSON`);
+    }
+    if (!isRow(row)) {
+      throw new Error(`${path}:${index + 1}: each line must be a JSON object`);
+    }
+    return [row];
+  });
+}
+
+function distribution(values: number[]): Distribution {
+  if (values.length === 0) return { mean: 0, p50: 0, p95: 0, max: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return {
+    mean: sorted.reduce((sum, n) => sum + n, 0) / sorted.length,
+    p50: at(0.5),
+    p95: at(0.95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Render the template for every row and price the batch
+ */
+export function estimateTemplate(
+  template: string,
+  rows: DataRow[],
+  model: string,
+  estimatedOutputTokens?: number,
+  options: CostOptions & { chat?: boolean } = {}
+): TemplateReport {
+  if (rows.length === 0) {
+    throw new Error('Dataset has no rows');
+  }
+
+  const missingVariables: Record<string, number> = {};
+  const inputs = rows.map((row, index): CostInput => {
+    const { text, missing } = renderTemplate(template, row, { json: options.chat });
+    new Set(missing).forEach((name) => {
+      missingVariables[name] = (missingVariables[name] || 0) + 1;
+    });
+    if (!options.chat) return text;
+
+    try {
+      return parseChatRequest(text);
+    } catch (error) {
+      throw new Error(`Row ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  const { chat, ...costOptions } = options;
+  const batch = calculateBatchCost(
+    inputs.map((inputText) => ({ inputText, model, estimatedOutput: estimatedOutputTokens })),
+    costOptions
+  );
+
+  const calls = batch.calls.map((call, index): TemplateCall => ({
+    row: index + 1,
+    inputTokens: call.inputTokens,
+    cost: call.totalCost,
+    fits: call.fit.fits,
+  }));
+
+  return {
+    model,
+    rows: rows.length,
+    totalCost: batch.totalCost,
+    totalInputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+    cost: distribution(calls.map((call) => call.cost)),
+    inputTokens: distribution(calls.map((call) => call.inputTokens)),
+    calls,
+    overflows: batch.calls
+      .map((call, index) => ({ row: index + 1, inputTokens: call.inputTokens, problems: call.fit.problems }))
+      .filter((_call, index) => !calls[index].fits),
+    missingVariables,
+  };
+}
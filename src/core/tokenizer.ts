@@ -2,115 +2,249 @@
  * Token counting for various AI models
  */
 
-import { Tiktoken, encoding_for_model } from 'tiktoken';
-import { getModelPricing } from '../data/pricing.js';
+import { Tiktoken, get_encoding, get_encoding_name_for_model, type TiktokenEncoding } from 'tiktoken';
+import { getModelPricing, MODEL_ALIASES } from '../data/pricing.js';
+import {
+  DEFAULT_PROFILES,
+  calibrateProfile,
+  estimateTokens,
+  type CalibrationSample,
+  type EstimatorProfile,
+  type TokenEstimate,
+  type TokenRange,
+} from './estimator.js';
 
 export interface TokenCount {
   tokens: number;
   characters: number;
   model: string;
+  tokenizer: string;
+  exact: boolean;
+  range?: TokenRange;
 }
 
 /**
- * Count tokens for OpenAI models using tiktoken
+ * A tokenizer registered under an encoding name
  */
-export function countOpenAITokens(text: string, model: string = 'gpt-4o'): TokenCount {
-  const pricing = getModelPricing(model);
-  const encoding = pricing?.encoding || 'cl100k_base';
+export interface Tokenizer {
+  name: string;
+  exact: boolean;
+  count(text: string): number;
+  estimate?(text: string): TokenEstimate;
+  split?(text: string): string[]; // Token boundaries (exact tokenizers that expose them)
+}
 
-  let enc: Tiktoken;
-  try {
-    // Try to get encoding for specific model
-    enc = encoding_for_model(model as any);
-  } catch {
-    // Fallback to encoding name
-    enc = encoding_for_model(encoding as any);
-  }
+/**
+ * Default encoding per provider, used when a model has no explicit entry
+ */
+const PROVIDER_ENCODINGS: Record<string, string> = {
+  openai: 'o200k_base',
+  anthropic: 'anthropic-estimate',
+  google: 'google-estimate',
+  meta: 'cl100k-estimate',
+  deepseek: 'cl100k-estimate',
+};
 
-  const tokens = enc.encode(text);
-  enc.free();
+const DEFAULT_ENCODING = 'cl100k-estimate';
 
-  return {
-    tokens: tokens.length,
-    characters: text.length,
-    model,
-  };
+/**
+ * Loaded tiktoken encoders, shared across calls
+ */
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+function getEncoder(encoding: TiktokenEncoding): Tiktoken {
+  let enc = encoders.get(encoding);
+  if (!enc) {
+    enc = get_encoding(encoding);
+    encoders.set(encoding, enc);
+  }
+  return enc;
 }
 
 /**
- * Count tokens for Claude models
- * Claude uses approximately 1 token per 4 characters (rough estimate)
- * For more accuracy, you'd need Anthropic's official tokenizer
+ * Split text into token strings; a character spanning several tokens is shown with the last of them
  */
-export function countClaudeTokens(text: string, model: string = 'claude-sonnet-4'): TokenCount {
-  // Rough estimation: ~1 token per 4 characters for English text
-  // This is an approximation until Anthropic provides official tokenizer
-  const estimatedTokens = Math.ceil(text.length / 4);
+function splitTokens(enc: Tiktoken, text: string): string[] {
+  const decoder = new TextDecoder('utf-8');
+  const pieces: string[] = [];
+  for (const token of enc.encode(text, [], [])) {
+    pieces.push(decoder.decode(enc.decode_single_token_bytes(token), { stream: true }));
+  }
+  const rest = decoder.decode();
+  if (rest && pieces.length) pieces[pieces.length - 1] += rest;
+  return pieces;
+}
 
+function tiktokenTokenizer(encoding: TiktokenEncoding, name: string = encoding, exact: boolean = true): Tokenizer {
   return {
-    tokens: estimatedTokens,
-    characters: text.length,
-    model,
+    name,
+    exact,
+    count: (text) => getEncoder(encoding).encode(text, [], []).length,
+    split: (text) => splitTokens(getEncoder(encoding), text),
+  };
+}
+
+function estimatorTokenizer(name: string, profile: EstimatorProfile): Tokenizer {
+  return {
+    name,
+    exact: false,
+    count: (text) => estimateTokens(text, profile).tokens,
+    estimate: (text) => estimateTokens(text, profile),
   };
 }
 
 /**
- * Count tokens for Gemini models
- * Similar estimation to Claude
+ * Tokenizer registry keyed by ModelPricing.encoding
  */
-export function countGeminiTokens(text: string, model: string = 'gemini-1.5-pro'): TokenCount {
-  const estimatedTokens = Math.ceil(text.length / 4);
+const TOKENIZER_REGISTRY: Record<string, Tokenizer> = {
+  o200k_base: tiktokenTokenizer('o200k_base'),
+  cl100k_base: tiktokenTokenizer('cl100k_base'),
+  p50k_base: tiktokenTokenizer('p50k_base'),
+  r50k_base: tiktokenTokenizer('r50k_base'),
+  // Anthropic and Google don't publish offline tokenizers
+  'anthropic-estimate': estimatorTokenizer('anthropic-estimate', DEFAULT_PROFILES['anthropic-estimate']),
+  'google-estimate': estimatorTokenizer('google-estimate', DEFAULT_PROFILES['google-estimate']),
+  // Open-weight models approximated with an OpenAI encoding
+  'cl100k-estimate': tiktokenTokenizer('cl100k_base', 'cl100k-estimate', false),
+};
 
-  return {
-    tokens: estimatedTokens,
-    characters: text.length,
-    model,
-  };
+/**
+ * Register (or replace) a tokenizer under an encoding name
+ */
+export function registerTokenizer(encoding: string, tokenizer: Tokenizer): void {
+  TOKENIZER_REGISTRY[encoding] = tokenizer;
 }
 
 /**
- * Count tokens for Llama models
- * Uses similar tokenization to GPT models
+ * Per-model tokenizer overrides (e.g. local tokenizer.json files)
  */
-export function countLlamaTokens(text: string, model: string = 'llama-3.1-70b'): TokenCount {
-  // Use cl100k_base encoding as approximation
-  const enc = encoding_for_model('cl100k_base' as any);
-  const tokens = enc.encode(text);
-  enc.free();
+const MODEL_TOKENIZERS: Record<string, string> = {};
 
-  return {
-    tokens: tokens.length,
-    characters: text.length,
-    model,
-  };
+/**
+ * Route a model to a registered tokenizer, ahead of its pricing encoding
+ */
+export function setModelTokenizer(model: string, encoding: string): void {
+  const normalizedModel = model.toLowerCase();
+  MODEL_TOKENIZERS[MODEL_ALIASES[normalizedModel] || normalizedModel] = encoding;
 }
 
 /**
- * Universal token counter - automatically detects model type
+ * Resolve the encoding name for a model
  */
-export function countTokens(text: string, model: string): TokenCount {
+export function getModelEncoding(model: string): string {
   const normalizedModel = model.toLowerCase();
+  const override = MODEL_TOKENIZERS[MODEL_ALIASES[normalizedModel] || normalizedModel];
+  if (override && TOKENIZER_REGISTRY[override]) {
+    return override;
+  }
+
+  const pricing = getModelPricing(model);
 
-  // OpenAI models
-  if (normalizedModel.includes('gpt')) {
-    return countOpenAITokens(text, model);
+  if (pricing?.encoding && TOKENIZER_REGISTRY[pricing.encoding]) {
+    return pricing.encoding;
   }
 
-  // Claude models
-  if (normalizedModel.includes('claude')) {
-    return countClaudeTokens(text, model);
+  // Models tiktoken knows about directly (e.g. dated OpenAI snapshots)
+  try {
+    return get_encoding_name_for_model(model as any);
+  } catch {
+    // Not an OpenAI model name
   }
 
-  // Gemini models
-  if (normalizedModel.includes('gemini')) {
-    return countGeminiTokens(text, model);
+  return (pricing && PROVIDER_ENCODINGS[pricing.provider.toLowerCase()]) || DEFAULT_ENCODING;
+}
+
+/**
+ * Get the tokenizer used for a model
+ */
+export function getTokenizer(model: string): Tokenizer {
+  return TOKENIZER_REGISTRY[getModelEncoding(model)] || TOKENIZER_REGISTRY[DEFAULT_ENCODING];
+}
+
+/**
+ * Token boundaries for a model; tokenizers that only count fall back to o200k_base
+ */
+export function getTokenBoundaries(text: string, model: string): { pieces: string[]; tokenizer: string; fallback: boolean } {
+  const tokenizer = getTokenizer(model);
+  if (tokenizer.split) {
+    return { pieces: tokenizer.split(text), tokenizer: tokenizer.name, fallback: false };
   }
 
-  // Llama models
-  if (normalizedModel.includes('llama')) {
-    return countLlamaTokens(text, model);
+  const fallback = TOKENIZER_REGISTRY.o200k_base;
+  return { pieces: fallback.split!(text), tokenizer: fallback.name, fallback: true };
+}
+
+/**
+ * Calibrate an estimated tokenizer from (text, true token count) samples
+ * Accepts a model name or an estimator encoding (e.g. anthropic-estimate).
+ */
+export function calibrateTokenizer(modelOrEncoding: string, samples: CalibrationSample[]): void {
+  const encoding = DEFAULT_PROFILES[modelOrEncoding] ? modelOrEncoding : getModelEncoding(modelOrEncoding);
+  const base = DEFAULT_PROFILES[encoding];
+  if (!base) {
+    throw new Error(`${modelOrEncoding} uses the ${encoding} tokenizer; calibration only applies to estimated counts`);
   }
 
-  // Default to OpenAI tokenization
-  return countOpenAITokens(text, model);
+  const profile = calibrateProfile(base, samples);
+  registerTokenizer(encoding, estimatorTokenizer(`${encoding} (calibrated, ${profile.samples} samples)`, profile));
+}
+
+/**
+ * Release loaded tiktoken encoders
+ */
+export function freeTokenizers(): void {
+  encoders.forEach((enc) => enc.free());
+  encoders.clear();
+}
+
+function countWith(tokenizer: Tokenizer, text: string, model: string): TokenCount {
+  const estimate = tokenizer.estimate?.(text);
+
+  return {
+    tokens: estimate ? estimate.tokens : tokenizer.count(text),
+    characters: text.length,
+    model,
+    tokenizer: tokenizer.name,
+    exact: tokenizer.exact,
+    range: estimate ? { low: estimate.low, high: estimate.high } : undefined,
+  };
+}
+
+/**
+ * Count tokens for OpenAI models using tiktoken
+ */
+export function countOpenAITokens(text: string, model: string = 'gpt-4o'): TokenCount {
+  return countWith(getTokenizer(model), text, model);
+}
+
+/**
+ * Count tokens for Claude models
+ * Estimated from character classes (Anthropic has no offline tokenizer);
+ * the result carries a low/high range
+ */
+export function countClaudeTokens(text: string, model: string = 'claude-sonnet-4'): TokenCount {
+  return countWith(TOKENIZER_REGISTRY['anthropic-estimate'], text, model);
+}
+
+/**
+ * Count tokens for Gemini models
+ * Similar estimation to Claude, with Gemini-specific weights
+ */
+export function countGeminiTokens(text: string, model: string = 'gemini-1.5-pro'): TokenCount {
+  return countWith(TOKENIZER_REGISTRY['google-estimate'], text, model);
+}
+
+/**
+ * Count tokens for Llama models
+ * Uses cl100k_base as an approximation of the Llama vocabulary
+ */
+export function countLlamaTokens(text: string, model: string = 'llama-3.1-70b'): TokenCount {
+  return countWith(TOKENIZER_REGISTRY['cl100k-estimate'], text, model);
+}
+
+/**
+ * Universal token counter - resolves the model's tokenizer from the registry
+ */
+export function countTokens(text: string, model: string): TokenCount {
+  return countWith(getTokenizer(model), text, model);
 }
@@ -0,0 +1,203 @@
+/**
+ * Token counting for tool/function definitions and structured-output schemas
+ * Renders definitions the way each provider injects them into the prompt,
+ * then counts the result with the model's tokenizer.
+ */
+
+import { readFileSync } from 'fs';
+import { getModelPricing } from '../data/pricing.js';
+import { countTokens } from './tokenizer.js';
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * A tool definition, normalized from OpenAI, Anthropic or Gemini format
+ */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters?: JsonSchema;
+}
+
+/**
+ * A structured-output (response format) schema
+ */
+export interface ResponseSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+export interface ToolTokenCount {
+  tools: Array<{ name: string; tokens: number }>;
+  overheadTokens: number; // Tool-use prompt and framing around the definitions
+  schemaTokens: number;
+  tokens: number;
+}
+
+/**
+ * How a provider injects tool definitions into the prompt
+ * OpenAI renders a TypeScript namespace; Anthropic adds a tool-use system
+ * prompt (346 tokens with tool_choice auto) before the JSON definitions;
+ * Gemini serializes the function declarations.
+ */
+interface ToolFormat {
+  header: string;
+  footer: string;
+  promptTokens: number;
+  renderTool(tool: ToolDefinition): string;
+  renderSchema(schema: ResponseSchema): string;
+}
+
+const jsonFormat = (promptTokens: number, inputKey: string): ToolFormat => ({
+  header: '',
+  footer: '',
+  promptTokens,
+  renderTool: (tool) =>
+    JSON.stringify({ name: tool.name, description: tool.description, [inputKey]: tool.parameters }),
+  renderSchema: (schema) => JSON.stringify(schema.schema),
+});
+
+const TOOL_FORMATS: Record<string, ToolFormat> = {
+  openai: {
+    header: '# Tools\n\n## functions\n\nnamespace functions {\n\n',
+    footer: '} // namespace functions',
+    promptTokens: 0,
+    renderTool: (tool) => {
+      const comment = tool.description ? `// ${tool.description.replace(/\n/g, '\n// ')}\n` : '';
+      const params = tool.parameters?.properties ? `_: ${renderType(tool.parameters)}` : '';
+      return `${comment}type ${tool.name} = (${params}) => any;\n\n`;
+    },
+    renderSchema: (schema) => `# Response Formats\n\n## ${schema.name}\n\n${JSON.stringify(schema.schema)}`,
+  },
+  anthropic: jsonFormat(346, 'input_schema'),
+  google: jsonFormat(0, 'parameters'),
+};
+
+function getToolFormat(model: string): ToolFormat {
+  const provider = getModelPricing(model)?.provider.toLowerCase() || 'openai';
+  return TOOL_FORMATS[provider] || TOOL_FORMATS.openai;
+}
+
+/**
+ * Render a JSON schema as the TypeScript type OpenAI shows the model
+ */
+function renderType(schema: JsonSchema): string {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ');
+  }
+  if (Array.isArray(schema.anyOf || schema.oneOf)) {
+    return (schema.anyOf || schema.oneOf).map(renderType).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+    case 'boolean':
+    case 'null':
+      return schema.type;
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'array':
+      return schema.items ? `${renderType(schema.items)}[]` : 'any[]';
+    case 'object': {
+      if (!schema.properties) return 'object';
+      const required: string[] = schema.required || [];
+      const fields = Object.entries(schema.properties as Record<string, JsonSchema>).map(([key, value]) => {
+        const comment = value.description ? `// ${value.description}\n` : '';
+        return `${comment}${key}${required.includes(key) ? '' : '?'}: ${renderType(value)},\n`;
+      });
+      return `{\n${fields.join('')}}`;
+    }
+    default:
+      return 'any';
+  }
+}
+
+/**
+ * Normalize one entry of a tools array
+ */
+function normalizeTool(tool: any, index: number): ToolDefinition[] {
+  if (Array.isArray(tool?.functionDeclarations)) {
+    return tool.functionDeclarations.flatMap((fn: any, i: number) => normalizeTool(fn, i));
+  }
+
+  const fn = tool?.type === 'function' && tool.function ? tool.function : tool;
+  if (!fn || typeof fn.name !== 'string') {
+    throw new Error(`Tool ${index} is missing a "name"`);
+  }
+
+  return [{ name: fn.name, description: fn.description, parameters: fn.parameters || fn.input_schema }];
+}
+
+/**
+ * Parse tool definitions: a tools array, or a request body with "tools" / "functions"
+ */
+export function parseToolDefinitions(json: string): ToolDefinition[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid tools JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const tools = Array.isArray(data) ? data : data?.tools || data?.functions;
+  if (!Array.isArray(tools)) {
+    throw new Error('Tools file must contain an array of tool definitions (or a "tools" array)');
+  }
+
+  return tools.flatMap(normalizeTool);
+}
+
+/**
+ * Parse a response schema: OpenAI response_format, { name, schema }, or a bare JSON schema
+ */
+export function parseResponseSchema(json: string): ResponseSchema {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid response schema JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const format = data?.response_format || data;
+  const wrapped = format?.json_schema || format;
+  if (wrapped && typeof wrapped.schema === 'object') {
+    return { name: wrapped.name || 'response', schema: wrapped.schema };
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Response schema must be a JSON schema object');
+  }
+
+  return { name: 'response', schema: data };
+}
+
+export function loadToolDefinitions(path: string): ToolDefinition[] {
+  return parseToolDefinitions(readFileSync(path, 'utf-8'));
+}
+
+export function loadResponseSchema(path: string): ResponseSchema {
+  return parseResponseSchema(readFileSync(path, 'utf-8'));
+}
+
+/**
+ * Count the prompt tokens added by tool definitions and a response schema
+ */
+export function countToolTokens(
+  tools: ToolDefinition[],
+  model: string,
+  responseSchema?: ResponseSchema
+): ToolTokenCount {
+  const format = getToolFormat(model);
+  const count = (text: string) => (text ? countTokens(text, model).tokens : 0);
+
+  const toolCounts = tools.map((tool) => ({ name: tool.name, tokens: count(format.renderTool(tool)) }));
+  const overheadTokens = tools.length > 0 ? format.promptTokens + count(format.header) + count(format.footer) : 0;
+  const schemaTokens = responseSchema ? count(format.renderSchema(responseSchema)) : 0;
+
+  return {
+    tools: toolCounts,
+    overheadTokens,
+    schemaTokens,
+    tokens: toolCounts.reduce((sum, tool) => sum + tool.tokens, 0) + overheadTokens + schemaTokens,
+  };
+}
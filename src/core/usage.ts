@@ -0,0 +1,316 @@
+/**
+ * Actual spend from API usage logs
+ * Parses OpenAI, Anthropic and Gemini `usage` blocks from JSONL response logs,
+ * prices them with the runtime pricing table and groups spend by model, day and tag.
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { getModelPricing } from '../data/pricing.js';
+import { DEFAULT_OUTPUT_TOKENS, getEffectiveRates } from './cost-calculator.js';
+
+/**
+ * Token usage for one API call, normalized across providers
+ */
+export interface UsageEntry {
+  model: string;
+  day: string; // YYYY-MM-DD, or 'unknown'
+  tag?: string;
+  inputTokens: number; // Uncached input
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  outputTokens: number; // Visible output
+  reasoningTokens: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number; // All input, including cache writes and reads
+  cachedTokens: number; // Cache reads
+  outputTokens: number;
+  reasoningTokens: number;
+  cost: number;
+}
+
+/**
+ * Actual output lengths for a model, against the default estimate
+ */
+export interface OutputStats {
+  model: string;
+  requests: number;
+  average: number;
+  median: number;
+  p90: number;
+  averageReasoning: number;
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>;
+  byTag?: Record<string, UsageTotals>;
+  tagField?: string;
+  output: OutputStats[];
+  defaultOutputTokens: number;
+  unpricedModels: string[];
+  skippedLines: number;
+}
+
+const num = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+/**
+ * Read a dotted field (e.g. "metadata.service") from a log record
+ */
+function getField(record: any, path: string): unknown {
+  return path.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), record);
+}
+
+/**
+ * Normalize a provider usage object
+ * OpenAI counts cached input inside prompt tokens and reasoning inside completion tokens;
+ * Anthropic reports cache writes/reads separately from input_tokens;
+ * Gemini counts cached content inside the prompt and thoughts separately from candidates.
+ */
+function normalizeUsage(usage: any, gemini: boolean): Omit<UsageEntry, 'model' | 'day' | 'tag'> | null {
+  if (!usage || typeof usage !== 'object') return null;
+
+  if (gemini) {
+    const cached = num(usage.cachedContentTokenCount);
+    return {
+      inputTokens: num(usage.promptTokenCount) - cached,
+      cacheWriteTokens: 0,
+      cacheReadTokens: cached,
+      outputTokens: num(usage.candidatesTokenCount),
+      reasoningTokens: num(usage.thoughtsTokenCount),
+    };
+  }
+
+  if ('prompt_tokens' in usage || 'input_tokens_details' in usage || 'output_tokens_details' in usage) {
+    const input = num(usage.prompt_tokens ?? usage.input_tokens);
+    const output = num(usage.completion_tokens ?? usage.output_tokens);
+    const cached = num((usage.prompt_tokens_details || usage.input_tokens_details)?.cached_tokens);
+    const reasoning = num((usage.completion_tokens_details || usage.output_tokens_details)?.reasoning_tokens);
+    return {
+      inputTokens: input - cached,
+      cacheWriteTokens: 0,
+      cacheReadTokens: cached,
+      outputTokens: output - reasoning,
+      reasoningTokens: reasoning,
+    };
+  }
+
+  if ('input_tokens' in usage || 'output_tokens' in usage) {
+    return {
+      inputTokens: num(usage.input_tokens),
+      cacheWriteTokens: num(usage.cache_creation_input_tokens),
+      cacheReadTokens: num(usage.cache_read_input_tokens),
+      outputTokens: num(usage.output_tokens),
+      reasoningTokens: 0,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Day of a log record: ISO timestamp fields, or OpenAI's `created` (unix seconds)
+ */
+function getDay(record: any, response: any): string {
+  const value = record.timestamp ?? record.time ?? record.date ?? response.createTime ?? response.created ?? response.created_at;
+  const date = typeof value === 'number' ? new Date(value < 1e12 ? value * 1000 : value) : new Date(String(value));
+  return value !== undefined && !isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : 'unknown';
+}
+
+/**
+ * Parse one log line: a raw response, or a wrapper with the response under "response"
+ */
+export function parseUsageLine(line: string, tagField?: string): UsageEntry | null {
+  let record: any;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!record || typeof record !== 'object') return null;
+
+  const response = record.response && typeof record.response === 'object' ? record.response : record;
+  const gemini = Boolean(response.usageMetadata);
+  const usage = normalizeUsage(gemini ? response.usageMetadata : response.usage, gemini);
+  const model = response.model || response.modelVersion || record.model;
+  if (!usage || typeof model !== 'string') return null;
+
+  const tag = tagField ? getField(record, tagField) : undefined;
+  return {
+    model: model.replace(/^models\//, ''),
+    day: getDay(record, response),
+    tag: tagField ? (tag === undefined || tag === null ? 'untagged' : String(tag)) : undefined,
+    ...usage,
+  };
+}
+
+/**
+ * Usage from a streamed (server-sent events) response
+ * OpenAI sends usage in the final chunk (with stream_options.include_usage);
+ * Anthropic sends input usage in message_start and output tokens in message_delta.
+ */
+export function parseStreamUsage(body: string): UsageEntry | null {
+  let start: any = null;
+  let outputTokens: number | undefined;
+  let last: UsageEntry | null = null;
+
+  for (const line of body.split('\n')) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') continue;
+
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      continue;
+    }
+
+    if (event?.type === 'message_start' && event.message) {
+      start = event.message;
+    } else if (event?.type === 'message_delta' && event.usage) {
+      outputTokens = event.usage.output_tokens;
+    } else if (event?.usage) {
+      last = parseUsageLine(data) || last;
+    }
+  }
+
+  if (start) {
+    const usage = { ...start.usage, output_tokens: outputTokens ?? start.usage?.output_tokens };
+    return parseUsageLine(JSON.stringify({ ...start, usage }));
+  }
+  return last;
+}
+
+/**
+ * Read usage entries from JSONL log files (streamed line by line)
+ */
+export async function loadUsageEntries(
+  paths: string[],
+  tagField?: string
+): Promise<{ entries: UsageEntry[]; skippedLines: number }> {
+  const entries: UsageEntry[] = [];
+  let skippedLines = 0;
+
+  for (const path of paths) {
+    const stream = path === '-' ? process.stdin : createReadStream(path, 'utf-8');
+    const lines = createInterface({ input: stream, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        const entry = parseUsageLine(line, tagField);
+        if (entry) {
+          entries.push(entry);
+        } else {
+          skippedLines++;
+        }
+      }
+    } catch (error) {
+      throw new Error(`Cannot read usage log ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { entries, skippedLines };
+}
+
+/**
+ * Resolve an API model name to a priced model, dropping date suffixes (e.g. gpt-4o-2024-08-06)
+ * Returns the name unchanged when neither form is known.
+ */
+export function resolveSnapshotModel(model: string): string {
+  const base = model.replace(/-(\d{4}-\d{2}-\d{2}|\d{8})$/, '');
+  return !getModelPricing(model) && getModelPricing(base) ? base : model;
+}
+
+function resolvePricing(model: string) {
+  return getModelPricing(resolveSnapshotModel(model));
+}
+
+/**
+ * Price one call at the model's rates (cache writes/reads at cache rates when listed)
+ */
+export function priceUsage(entry: UsageEntry): number | null {
+  const pricing = resolvePricing(entry.model);
+  if (!pricing) return null;
+
+  const totalInput = entry.inputTokens + entry.cacheWriteTokens + entry.cacheReadTokens;
+  const { rates } = getEffectiveRates(pricing, totalInput);
+  return (
+    entry.inputTokens * rates.inputPricePerMillion +
+    entry.cacheWriteTokens * (rates.cacheWritePricePerMillion ?? rates.inputPricePerMillion) +
+    entry.cacheReadTokens * (rates.cacheReadPricePerMillion ?? rates.inputPricePerMillion) +
+    (entry.outputTokens + entry.reasoningTokens) * rates.outputPricePerMillion
+  ) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, cachedTokens: 0, outputTokens: 0, reasoningTokens: 0, cost: 0 };
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Group spend by model, day and (optionally) tag
+ */
+export function summarizeUsage(entries: UsageEntry[], tagField?: string, skippedLines: number = 0): UsageReport {
+  const total = emptyTotals();
+  const byModel: Record<string, UsageTotals> = {};
+  const byDay: Record<string, UsageTotals> = {};
+  const byTag: Record<string, UsageTotals> = {};
+  const outputs: Record<string, { output: number[]; reasoning: number }> = {};
+  const unpriced = new Set<string>();
+
+  for (const entry of entries) {
+    const cost = priceUsage(entry);
+    if (cost === null) unpriced.add(entry.model);
+
+    const group = (totals: Record<string, UsageTotals>, key: string) => (totals[key] = totals[key] || emptyTotals());
+    const groups = [total, group(byModel, entry.model), group(byDay, entry.day)];
+    if (entry.tag !== undefined) groups.push(group(byTag, entry.tag));
+    for (const group of groups) {
+      group.requests++;
+      group.inputTokens += entry.inputTokens + entry.cacheWriteTokens + entry.cacheReadTokens;
+      group.cachedTokens += entry.cacheReadTokens;
+      group.outputTokens += entry.outputTokens;
+      group.reasoningTokens += entry.reasoningTokens;
+      group.cost += cost || 0;
+    }
+
+    if (!outputs[entry.model]) {
+      outputs[entry.model] = { output: [], reasoning: 0 };
+    }
+    const stats = outputs[entry.model];
+    stats.output.push(entry.outputTokens);
+    stats.reasoning += entry.reasoningTokens;
+  }
+
+  const output = Object.entries(outputs).map(([model, stats]): OutputStats => {
+    const sorted = [...stats.output].sort((a, b) => a - b);
+    return {
+      model,
+      requests: sorted.length,
+      average: Math.round(sorted.reduce((sum, n) => sum + n, 0) / sorted.length),
+      median: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+      averageReasoning: Math.round(stats.reasoning / sorted.length),
+    };
+  });
+
+  return {
+    total,
+    byModel,
+    byDay,
+    byTag: tagField ? byTag : undefined,
+    tagField,
+    output,
+    defaultOutputTokens: DEFAULT_OUTPUT_TOKENS,
+    unpricedModels: [...unpriced].sort(),
+    skippedLines,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * File watching for count/compare --watch
+ * Watches directories and glob roots recursively, plus the directories holding explicit files
+ * (editors often save by renaming a temp file), and re-expands the patterns on every change,
+ * so files added and removed anywhere under a root, including in new subdirectories, are picked up.
+ * Where recursive watching is unavailable (Linux before Node 20), every directory under a root
+ * gets its own watcher, re-listed after each change. Events under ignored paths are dropped.
+ */
+
+import { existsSync, statSync, watch, type FSWatcher } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import { findDirectories, findFiles, getGlobRoot, isIgnoredPath, type ScanOptions } from './scanner.js';
+
+export interface WatchOptions extends ScanOptions {
+  debounceMs?: number; // Coalesce bursts of events from one save (default 100ms)
+}
+
+export interface FileWatcher {
+  files: string[]; // Current matches (absolute paths)
+  close(): void;
+}
+
+/**
+ * Watch paths, directories and globs; onChange gets the current matches and the files that changed
+ */
+export function watchFiles(
+  patterns: string[],
+  onChange: (files: string[], changed: string[]) => void,
+  options: WatchOptions = {}
+): FileWatcher {
+  const cwd = resolve(options.cwd || process.cwd());
+  const watchers = new Map<string, FSWatcher>();
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const state: FileWatcher = {
+    files: findFiles(patterns, options),
+    close: () => {
+      if (timer) clearTimeout(timer);
+      watchers.forEach((watcher) => watcher.close());
+      watchers.clear();
+    },
+  };
+
+  // Watched recursively: directory patterns and the literal roots of globs
+  const roots = patterns
+    .map((pattern) => {
+      const path = resolve(cwd, pattern);
+      return existsSync(path) ? path : getGlobRoot(pattern, cwd);
+    })
+    .filter((path): path is string => path !== null && existsSync(path) && statSync(path).isDirectory());
+  const rootOf = (path: string) =>
+    roots.find((root) => {
+      const rel = relative(root, path);
+      return !rel.startsWith('..') && !isAbsolute(rel);
+    });
+  let recursive = true;
+
+  const flush = () => {
+    timer = null;
+    const previous = new Set(state.files);
+    let files: string[];
+    try {
+      files = findFiles(patterns, options);
+    } catch {
+      return; // An explicit file mid-save (deleted before its replacement lands); wait for the next event
+    }
+
+    const current = new Set(files);
+    const changed = new Set([
+      ...[...pending].filter((path) => previous.has(path) && current.has(path)),
+      ...files.filter((path) => !previous.has(path)),
+      ...state.files.filter((path) => !current.has(path)),
+    ]);
+    pending.clear();
+    state.files = files;
+    sync();
+    if (changed.size) {
+      onChange(files, [...changed]);
+    }
+  };
+
+  const listener = (dir: string) => (_event: string, filename: string | Buffer | null) => {
+    const path = filename ? join(dir, filename.toString()) : dir;
+    const root = rootOf(path);
+    if (root && isIgnoredPath(path, root, options)) return;
+
+    pending.add(path);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, options.debounceMs ?? 100);
+  };
+
+  // Roots once (or each of their directories); explicit files outside them through their own directory
+  const sync = () => {
+    let listed = true;
+    const listDirs = (root: string) => {
+      try {
+        return findDirectories(root, options);
+      } catch {
+        listed = false; // A directory vanished mid-walk; the event it sent re-syncs
+        return [root];
+      }
+    };
+    const rootDirs = recursive ? roots : roots.flatMap(listDirs);
+    const fileDirs = state.files.map((file) => dirname(file)).filter((dir) => !rootOf(dir));
+    const dirs = new Set([...rootDirs, ...fileDirs]);
+
+    // Drop watchers on directories that were removed (or are now ignored)
+    if (!recursive && listed) {
+      watchers.forEach((watcher, dir) => {
+        if (!dirs.has(dir)) {
+          watcher.close();
+          watchers.delete(dir);
+        }
+      });
+    }
+    for (const dir of dirs) {
+      if (watchers.has(dir)) continue;
+      try {
+        watchers.set(dir, watch(dir, { recursive: recursive && roots.includes(dir) }, listener(dir)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+          recursive = false;
+          return sync();
+        }
+        // Directory vanished between scan and watch
+      }
+    }
+  };
+
+  sync();
+  return state;
+}
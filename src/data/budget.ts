@@ -0,0 +1,142 @@
+/**
+ * Budget ledger: a spending limit and the estimates/actual spend recorded against it
+ * Stored as JSON in the per-user data directory (AI_TOKENS_BUDGET_FILE overrides).
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+export const BUDGET_PERIODS = ['daily', 'weekly', 'monthly', 'total'] as const;
+
+export type BudgetPeriod = (typeof BUDGET_PERIODS)[number];
+
+export interface Budget {
+  limit: number; // USD per period
+  period: BudgetPeriod;
+  hard?: boolean; // Refuse charges past the limit instead of warning
+}
+
+export interface LedgerEntry {
+  at: string; // ISO timestamp
+  kind: 'estimate' | 'actual';
+  cost: number;
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  note?: string;
+}
+
+export interface BudgetLedger {
+  version: 1;
+  budget?: Budget;
+  entries: LedgerEntry[];
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  periodStart: Date | null; // null for 'total'
+  spent: number;
+  remaining: number;
+  entries: number;
+}
+
+/**
+ * Per-user data directory (ledgers are kept out of the cache directory)
+ */
+export function getBudgetPath(): string {
+  if (process.env.AI_TOKENS_BUDGET_FILE) return process.env.AI_TOKENS_BUDGET_FILE;
+
+  if (process.platform === 'win32') {
+    return join(process.env.APPDATA || join(homedir(), 'AppData', 'Roaming'), 'ai-tokens', 'budget.json');
+  }
+  if (process.platform === 'darwin') {
+    return join(homedir(), 'Library', 'Application Support', 'ai-tokens', 'budget.json');
+  }
+  return join(process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share'), 'ai-tokens', 'budget.json');
+}
+
+/**
+ * Read the ledger; a missing file is an empty ledger
+ */
+export function readLedger(): BudgetLedger {
+  const path = getBudgetPath();
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch {
+    return { version: 1, entries: [] };
+  }
+
+  try {
+    const ledger = JSON.parse(content) as BudgetLedger;
+    if (ledger.version !== 1 || !Array.isArray(ledger.entries)) {
+      throw new Error('unsupported ledger format');
+    }
+    return ledger;
+  } catch (error) {
+    throw new Error(`Invalid budget ledger ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export function writeLedger(ledger: BudgetLedger): void {
+  const path = getBudgetPath();
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(ledger, null, 2));
+}
+
+export function setBudget(budget: Budget): BudgetLedger {
+  if (!(budget.limit > 0)) {
+    throw new Error('Budget limit must be a positive amount');
+  }
+  if (!BUDGET_PERIODS.includes(budget.period)) {
+    throw new Error(`Budget period must be one of: ${BUDGET_PERIODS.join(', ')}`);
+  }
+
+  const ledger = readLedger();
+  ledger.budget = budget;
+  writeLedger(ledger);
+  return ledger;
+}
+
+export function recordSpend(entries: LedgerEntry[]): BudgetLedger {
+  const ledger = readLedger();
+  ledger.entries.push(...entries);
+  writeLedger(ledger);
+  return ledger;
+}
+
+/**
+ * Start of the current period (local time; weeks start on Monday)
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date | null {
+  switch (period) {
+    case 'daily':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    case 'weekly':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() - ((now.getDay() + 6) % 7));
+    case 'monthly':
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    case 'total':
+      return null;
+  }
+}
+
+/**
+ * Spend in the current period, or null when no budget is set
+ */
+export function getBudgetStatus(ledger: BudgetLedger, now: Date = new Date()): BudgetStatus | null {
+  if (!ledger.budget) return null;
+
+  const periodStart = getPeriodStart(ledger.budget.period, now);
+  const entries = ledger.entries.filter((entry) => !periodStart || new Date(entry.at) >= periodStart);
+  const spent = entries.reduce((sum, entry) => sum + entry.cost, 0);
+
+  return {
+    budget: ledger.budget,
+    periodStart,
+    spent,
+    remaining: ledger.budget.limit - spent,
+    entries: entries.length,
+  };
+}
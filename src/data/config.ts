@@ -0,0 +1,89 @@
+/**
+ * Project configuration (.ai-tokensrc)
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { PricingOverrides } from './pricing-fetcher.js';
+
+export const CONFIG_FILE_NAME = '.ai-tokensrc';
+
+const CONFIG_FILE_NAMES = [
+  CONFIG_FILE_NAME,
+  `${CONFIG_FILE_NAME}.json`,
+  `${CONFIG_FILE_NAME}.yaml`,
+  `${CONFIG_FILE_NAME}.yml`,
+];
+
+export interface AiTokensConfig extends PricingOverrides {
+  // Extra model aliases, e.g. gateway-proxied names -> model keys
+  aliases?: Record<string, string>;
+  // Model key -> path to a local Hugging Face tokenizer.json
+  tokenizers?: Record<string, string>;
+  // Model key or estimator encoding -> path to calibration samples
+  calibration?: Record<string, string>;
+  // Pricing source: URL, file:// URL, or local path to a LiteLLM-format mirror
+  pricingUrl?: string;
+  // Gitignore-style patterns skipped by the scan command
+  ignore?: string[];
+}
+
+export interface LoadedConfig {
+  path: string;
+  config: AiTokensConfig;
+}
+
+/**
+ * Find the nearest config file, walking up from startDir
+ */
+export function findConfigFile(startDir: string = process.cwd()): string | null {
+  let dir = resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Load the nearest config file (JSON or YAML)
+ * Relative paths inside the file are resolved against its directory.
+ */
+export function loadConfig(startDir?: string): LoadedConfig | null {
+  const path = findConfigFile(startDir);
+  if (!path) return null;
+
+  let config: AiTokensConfig;
+  try {
+    const content = readFileSync(path, 'utf-8');
+    config = (/\.ya?ml$/.test(path) || !content.trim().startsWith('{') ? parseYaml(content) : JSON.parse(content)) || {};
+  } catch (error) {
+    throw new Error(`Invalid config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const baseDir = dirname(path);
+  config.tokenizers = resolvePaths(baseDir, config.tokenizers);
+  config.calibration = resolvePaths(baseDir, config.calibration);
+  if (config.pricingUrl && !/^[a-z][a-z0-9+.-]*:/i.test(config.pricingUrl)) {
+    config.pricingUrl = resolve(baseDir, config.pricingUrl);
+  }
+
+  return { path, config };
+}
+
+function resolvePaths(baseDir: string, files?: Record<string, string>): Record<string, string> | undefined {
+  if (!files) return undefined;
+
+  return Object.fromEntries(
+    Object.entries(files).map(([key, file]) => [key, resolve(baseDir, file)])
+  );
+}
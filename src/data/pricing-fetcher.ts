@@ -2,9 +2,13 @@
  * Fetch pricing data from community sources
  */
 
-import { ModelPricing } from './pricing.js';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import type { ModelPricing, PricingTier } from './pricing.js';
 
-const LITELLM_PRICING_URL = 'https://raw.githubusercontent.com/BerriAI/litellm/main/model_prices_and_context_window.json';
+export const LITELLM_PRICING_URL = 'https://raw.githubusercontent.com/BerriAI/litellm/main/model_prices_and_context_window.json';
 
 /**
  * LiteLLM pricing format
@@ -12,81 +16,146 @@ const LITELLM_PRICING_URL = 'https://raw.githubusercontent.com/BerriAI/litellm/m
 interface LiteLLMModel {
   input_cost_per_token?: number;
   output_cost_per_token?: number;
+  cache_creation_input_token_cost?: number;
+  cache_read_input_token_cost?: number;
+  input_cost_per_token_batches?: number;
+  output_cost_per_token_batches?: number;
   max_input_tokens?: number;
   max_output_tokens?: number;
   litellm_provider?: string;
   mode?: string;
   supports_vision?: boolean;
   supports_function_calling?: boolean;
+  supports_response_schema?: boolean;
+  // Tiered rates, e.g. input_cost_per_token_above_200k_tokens
+  [key: string]: unknown;
+}
+
+/**
+ * Community pricing for one model; fields the source doesn't list are left out
+ * so bundled values (tiers, limits, capability flags) survive the merge
+ */
+export type CommunityModelPricing = Omit<ModelPricing, 'contextWindow'> & { contextWindow?: number };
+
+/**
+ * Resolve the pricing source: explicit URL, AI_TOKENS_PRICING_URL, or LiteLLM on GitHub
+ * Local paths are made absolute, so the cache records (and is matched against) one name per source.
+ */
+export function getPricingUrl(url?: string): string {
+  const source = url || process.env.AI_TOKENS_PRICING_URL || LITELLM_PRICING_URL;
+  return /^[a-z][a-z0-9+.-]*:/i.test(source) && !/^[a-z]:[\\/]/i.test(source) ? source : resolve(source);
 }
 
 /**
  * Fetch latest pricing from LiteLLM (community-maintained)
+ * The source may be an http(s) URL, a file:// URL, or a local path (e.g. a mirror).
  */
-export async function fetchCommunityPricing(): Promise<Record<string, ModelPricing>> {
-  try {
-    const response = await fetch(LITELLM_PRICING_URL);
+export async function fetchCommunityPricing(url?: string): Promise<Record<string, CommunityModelPricing>> {
+  const source = getPricingUrl(url);
+  let data: Record<string, LiteLLMModel>;
+
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
     if (!response.ok) {
       throw new Error(`Failed to fetch pricing: ${response.statusText}`);
     }
+    data = await response.json() as Record<string, LiteLLMModel>;
+  } else {
+    const path = source.startsWith('file:') ? fileURLToPath(source) : source;
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  }
 
-    const data = await response.json() as Record<string, LiteLLMModel>;
-    return convertLiteLLMPricing(data);
-  } catch (error) {
-    console.warn('Failed to fetch community pricing, using fallback:', error);
-    return {};
+  return convertLiteLLMPricing(data);
+}
+
+function perMillion(costPerToken?: number): number | undefined {
+  return costPerToken === undefined ? undefined : costPerToken * 1_000_000;
+}
+
+/**
+ * Collect LiteLLM "*_above_<N>k_tokens" fields into pricing tiers
+ */
+function extractTiers(model: LiteLLMModel): PricingTier[] | undefined {
+  const thresholds = new Set<number>();
+  for (const key of Object.keys(model)) {
+    const match = key.match(/_above_(\d+)k_tokens$/);
+    if (match) thresholds.add(parseInt(match[1]) * 1000);
   }
+
+  const tiers: PricingTier[] = [];
+  for (const threshold of [...thresholds].sort((a, b) => a - b)) {
+    const field = (name: string) => {
+      const value = model[`${name}_above_${threshold / 1000}k_tokens`];
+      return typeof value === 'number' ? value * 1_000_000 : undefined;
+    };
+
+    const input = field('input_cost_per_token');
+    const output = field('output_cost_per_token');
+    if (input === undefined || output === undefined) continue;
+
+    tiers.push({
+      aboveInputTokens: threshold,
+      inputPricePerMillion: input,
+      outputPricePerMillion: output,
+      cacheWritePricePerMillion: field('cache_creation_input_token_cost'),
+      cacheReadPricePerMillion: field('cache_read_input_token_cost'),
+    });
+  }
+
+  return tiers.length > 0 ? tiers : undefined;
 }
 
 /**
  * Convert LiteLLM format to our format
  */
-function convertLiteLLMPricing(litellmData: Record<string, LiteLLMModel>): Record<string, ModelPricing> {
-  const pricing: Record<string, ModelPricing> = {};
+function convertLiteLLMPricing(litellmData: Record<string, LiteLLMModel>): Record<string, CommunityModelPricing> {
+  const pricing: Record<string, CommunityModelPricing> = {};
 
   // Map of LiteLLM model keys to our simplified keys
-  const modelMappings: Record<string, { key: string; name: string; provider: string }> = {
+  const modelMappings: Record<string, { key: string; name: string; provider: string; encoding: string; reasoning?: boolean }> = {
     // OpenAI models
-    'gpt-5': { key: 'gpt-5', name: 'GPT-5', provider: 'OpenAI' },
-    'gpt-5-mini': { key: 'gpt-5-mini', name: 'GPT-5 Mini', provider: 'OpenAI' },
-    'gpt-5-nano': { key: 'gpt-5-nano', name: 'GPT-5 Nano', provider: 'OpenAI' },
-    'gpt-5-pro': { key: 'gpt-5-pro', name: 'GPT-5 Pro', provider: 'OpenAI' },
-    'gpt-4o': { key: 'gpt-4o', name: 'GPT-4o', provider: 'OpenAI' },
-    'gpt-4o-mini': { key: 'gpt-4o-mini', name: 'GPT-4o Mini', provider: 'OpenAI' },
-    'gpt-4-turbo': { key: 'gpt-4-turbo', name: 'GPT-4 Turbo', provider: 'OpenAI' },
-    'gpt-4': { key: 'gpt-4', name: 'GPT-4', provider: 'OpenAI' },
-    'gpt-3.5-turbo': { key: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'OpenAI' },
-    'o1-preview': { key: 'o1-preview', name: 'O1 Preview', provider: 'OpenAI' },
-    'o1-mini': { key: 'o1-mini', name: 'O1 Mini', provider: 'OpenAI' },
+    'gpt-5': { key: 'gpt-5', name: 'GPT-5', provider: 'OpenAI', encoding: 'o200k_base', reasoning: true },
+    'gpt-5-mini': { key: 'gpt-5-mini', name: 'GPT-5 Mini', provider: 'OpenAI', encoding: 'o200k_base', reasoning: true },
+    'gpt-5-nano': { key: 'gpt-5-nano', name: 'GPT-5 Nano', provider: 'OpenAI', encoding: 'o200k_base', reasoning: true },
+    'gpt-5-pro': { key: 'gpt-5-pro', name: 'GPT-5 Pro', provider: 'OpenAI', encoding: 'o200k_base', reasoning: true },
+    'gpt-4o': { key: 'gpt-4o', name: 'GPT-4o', provider: 'OpenAI', encoding: 'o200k_base' },
+    'gpt-4o-mini': { key: 'gpt-4o-mini', name: 'GPT-4o Mini', provider: 'OpenAI', encoding: 'o200k_base' },
+    'gpt-4-turbo': { key: 'gpt-4-turbo', name: 'GPT-4 Turbo', provider: 'OpenAI', encoding: 'cl100k_base' },
+    'gpt-4': { key: 'gpt-4', name: 'GPT-4', provider: 'OpenAI', encoding: 'cl100k_base' },
+    'gpt-3.5-turbo': { key: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', provider: 'OpenAI', encoding: 'cl100k_base' },
+    'o1-preview': { key: 'o1-preview', name: 'O1 Preview', provider: 'OpenAI', encoding: 'o200k_base', reasoning: true },
+    'o1-mini': { key: 'o1-mini', name: 'O1 Mini', provider: 'OpenAI', encoding: 'o200k_base', reasoning: true },
+    'o3': { key: 'o3', name: 'O3', provider: 'OpenAI', encoding: 'o200k_base', reasoning: true },
+    'o3-mini': { key: 'o3-mini', name: 'O3 Mini', provider: 'OpenAI', encoding: 'o200k_base', reasoning: true },
 
     // Claude models (Anthropic direct)
-    'claude-sonnet-4-5': { key: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', provider: 'Anthropic' },
-    'claude-sonnet-4-5-20250929': { key: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', provider: 'Anthropic' },
-    'claude-opus-4-20250514': { key: 'claude-opus-4', name: 'Claude Opus 4', provider: 'Anthropic' },
-    'claude-sonnet-4-20250514': { key: 'claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'Anthropic' },
-    'claude-3-5-sonnet-20241022': { key: 'claude-sonnet-3-5', name: 'Claude 3.5 Sonnet', provider: 'Anthropic' },
-    'claude-3-5-haiku-20241022': { key: 'claude-haiku-3-5', name: 'Claude 3.5 Haiku', provider: 'Anthropic' },
-    'claude-3-opus-20240229': { key: 'claude-3-opus', name: 'Claude 3 Opus', provider: 'Anthropic' },
-    'claude-3-sonnet-20240229': { key: 'claude-3-sonnet', name: 'Claude 3 Sonnet', provider: 'Anthropic' },
-    'claude-3-haiku-20240307': { key: 'claude-3-haiku', name: 'Claude 3 Haiku', provider: 'Anthropic' },
+    'claude-sonnet-4-5': { key: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', provider: 'Anthropic', encoding: 'anthropic-estimate' },
+    'claude-sonnet-4-5-20250929': { key: 'claude-sonnet-4-5', name: 'Claude Sonnet 4.5', provider: 'Anthropic', encoding: 'anthropic-estimate' },
+    'claude-opus-4-20250514': { key: 'claude-opus-4', name: 'Claude Opus 4', provider: 'Anthropic', encoding: 'anthropic-estimate' },
+    'claude-sonnet-4-20250514': { key: 'claude-sonnet-4', name: 'Claude Sonnet 4', provider: 'Anthropic', encoding: 'anthropic-estimate' },
+    'claude-3-5-sonnet-20241022': { key: 'claude-sonnet-3-5', name: 'Claude 3.5 Sonnet', provider: 'Anthropic', encoding: 'anthropic-estimate' },
+    'claude-3-5-haiku-20241022': { key: 'claude-haiku-3-5', name: 'Claude 3.5 Haiku', provider: 'Anthropic', encoding: 'anthropic-estimate' },
+    'claude-3-opus-20240229': { key: 'claude-3-opus', name: 'Claude 3 Opus', provider: 'Anthropic', encoding: 'anthropic-estimate' },
+    'claude-3-sonnet-20240229': { key: 'claude-3-sonnet', name: 'Claude 3 Sonnet', provider: 'Anthropic', encoding: 'anthropic-estimate' },
+    'claude-3-haiku-20240307': { key: 'claude-3-haiku', name: 'Claude 3 Haiku', provider: 'Anthropic', encoding: 'anthropic-estimate' },
 
     // Gemini models
-    'gemini-2.5-pro': { key: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', provider: 'Google' },
-    'gemini-2.5-flash': { key: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'Google' },
-    'gemini-2.0-flash-exp': { key: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', provider: 'Google' },
-    'gemini-1.5-pro': { key: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', provider: 'Google' },
-    'gemini-1.5-flash': { key: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', provider: 'Google' },
+    'gemini-2.5-pro': { key: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', provider: 'Google', encoding: 'google-estimate' },
+    'gemini-2.5-flash': { key: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'Google', encoding: 'google-estimate' },
+    'gemini-2.0-flash-exp': { key: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', provider: 'Google', encoding: 'google-estimate' },
+    'gemini-1.5-pro': { key: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', provider: 'Google', encoding: 'google-estimate' },
+    'gemini-1.5-flash': { key: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', provider: 'Google', encoding: 'google-estimate' },
 
     // Meta Llama
-    'meta-llama/llama-3.1-405b-instruct': { key: 'llama-3.1-405b', name: 'Llama 3.1 405B', provider: 'Meta' },
-    'meta-llama/llama-3.1-70b-instruct': { key: 'llama-3.1-70b', name: 'Llama 3.1 70B', provider: 'Meta' },
-    'meta-llama/llama-3.1-8b-instruct': { key: 'llama-3.1-8b', name: 'Llama 3.1 8B', provider: 'Meta' },
+    'meta-llama/llama-3.1-405b-instruct': { key: 'llama-3.1-405b', name: 'Llama 3.1 405B', provider: 'Meta', encoding: 'cl100k-estimate' },
+    'meta-llama/llama-3.1-70b-instruct': { key: 'llama-3.1-70b', name: 'Llama 3.1 70B', provider: 'Meta', encoding: 'cl100k-estimate' },
+    'meta-llama/llama-3.1-8b-instruct': { key: 'llama-3.1-8b', name: 'Llama 3.1 8B', provider: 'Meta', encoding: 'cl100k-estimate' },
 
     // DeepSeek
-    'deepseek-chat': { key: 'deepseek-chat', name: 'DeepSeek Chat', provider: 'DeepSeek' },
-    'deepseek-reasoner': { key: 'deepseek-reasoner', name: 'DeepSeek Reasoner', provider: 'DeepSeek' },
-    'deepseek/deepseek-r1': { key: 'deepseek-r1', name: 'DeepSeek R1', provider: 'DeepSeek' },
-    'deepseek/deepseek-coder': { key: 'deepseek-coder', name: 'DeepSeek Coder', provider: 'DeepSeek' },
+    'deepseek-chat': { key: 'deepseek-chat', name: 'DeepSeek Chat', provider: 'DeepSeek', encoding: 'cl100k-estimate' },
+    'deepseek-reasoner': { key: 'deepseek-reasoner', name: 'DeepSeek Reasoner', provider: 'DeepSeek', encoding: 'cl100k-estimate', reasoning: true },
+    'deepseek/deepseek-r1': { key: 'deepseek-r1', name: 'DeepSeek R1', provider: 'DeepSeek', encoding: 'cl100k-estimate', reasoning: true },
+    'deepseek/deepseek-coder': { key: 'deepseek-coder', name: 'DeepSeek Coder', provider: 'DeepSeek', encoding: 'cl100k-estimate' },
   };
 
   for (const [litellmKey, model] of Object.entries(litellmData)) {
@@ -101,8 +170,18 @@ function convertLiteLLMPricing(litellmData: Record<string, LiteLLMModel>): Recor
       provider: mapping.provider,
       inputPricePerMillion: model.input_cost_per_token * 1_000_000,
       outputPricePerMillion: model.output_cost_per_token * 1_000_000,
-      contextWindow: model.max_input_tokens || 128000,
-      encoding: mapping.provider === 'OpenAI' ? 'cl100k_base' : undefined,
+      cacheWritePricePerMillion: perMillion(model.cache_creation_input_token_cost),
+      cacheReadPricePerMillion: perMillion(model.cache_read_input_token_cost),
+      batchInputPricePerMillion: perMillion(model.input_cost_per_token_batches),
+      batchOutputPricePerMillion: perMillion(model.output_cost_per_token_batches),
+      tiers: extractTiers(model),
+      reasoning: mapping.reasoning,
+      vision: model.supports_vision,
+      functionCalling: model.supports_function_calling,
+      structuredOutput: model.supports_response_schema,
+      contextWindow: model.max_input_tokens,
+      maxOutputTokens: model.max_output_tokens,
+      encoding: mapping.encoding,
     };
   }
 
@@ -110,44 +189,257 @@ function convertLiteLLMPricing(litellmData: Record<string, LiteLLMModel>): Recor
 }
 
 /**
- * Merge community pricing with fallback pricing
+ * Project-level pricing overrides (see data/config.ts)
+ */
+export interface PricingOverrides {
+  // New models, or partial overrides of existing ones
+  models?: Record<string, Partial<ModelPricing>>;
+  // Provider -> percentage discount (e.g. { "Anthropic": 20 })
+  discounts?: Record<string, number>;
+}
+
+/**
+ * Merge community pricing with fallback pricing, then apply project overrides
  */
 export function mergePricing(
-  communityPricing: Record<string, ModelPricing>,
-  fallbackPricing: Record<string, ModelPricing>
+  communityPricing: Record<string, CommunityModelPricing>,
+  fallbackPricing: Record<string, ModelPricing>,
+  overrides: PricingOverrides = {}
 ): Record<string, ModelPricing> {
-  // Community pricing takes precedence (more up-to-date)
-  return {
-    ...fallbackPricing,
-    ...communityPricing,
-  };
+  const merged: Record<string, ModelPricing> = Object.fromEntries(
+    Object.entries(fallbackPricing).map(([key, model]) => [key, { ...model, source: model.source || 'bundled' }])
+  );
+
+  // Community pricing takes precedence (more up-to-date), field by field:
+  // fields it omits keep their bundled values
+  for (const [key, model] of Object.entries(communityPricing)) {
+    const listed = Object.fromEntries(Object.entries(model).filter(([, value]) => value !== undefined));
+    merged[key] = {
+      ...(merged[key] || { contextWindow: 128000 }),
+      ...listed,
+      source: model.source || 'community',
+    } as ModelPricing;
+  }
+
+  // Project config takes precedence over both; the rates it sets are taken as final (not discounted)
+  const explicit: Record<string, Set<string>> = {};
+  for (const [rawKey, model] of Object.entries(overrides.models || {})) {
+    const key = rawKey.toLowerCase();
+    explicit[key] = new Set(Object.keys(model));
+    const existing = merged[key];
+
+    if (!existing && (model.inputPricePerMillion === undefined || model.outputPricePerMillion === undefined)) {
+      throw new Error(`Custom model "${rawKey}" needs inputPricePerMillion and outputPricePerMillion`);
+    }
+
+    merged[key] = {
+      ...(existing || { name: rawKey, provider: 'Custom', contextWindow: 128000 }),
+      ...model,
+      source: 'config',
+    } as ModelPricing;
+  }
+
+  const discounts = Object.fromEntries(
+    Object.entries(overrides.discounts || {}).map(([provider, percent]) => [provider.toLowerCase(), percent])
+  );
+  for (const [key, model] of Object.entries(merged)) {
+    const percent = discounts[model.provider.toLowerCase()];
+    if (percent === undefined) continue;
+
+    if (percent < 0 || percent > 100) {
+      throw new Error(`Discount for ${model.provider} must be between 0 and 100 (got ${percent})`);
+    }
+
+    const factor = 1 - percent / 100;
+    const discount = (price?: number) => (price === undefined ? undefined : price * factor);
+    const set = explicit[key] || new Set<string>();
+    const rate = (field: keyof ModelPricing, price?: number) => (set.has(field) ? price : discount(price));
+    merged[key] = {
+      ...model,
+      inputPricePerMillion: rate('inputPricePerMillion', model.inputPricePerMillion)!,
+      outputPricePerMillion: rate('outputPricePerMillion', model.outputPricePerMillion)!,
+      cacheWritePricePerMillion: rate('cacheWritePricePerMillion', model.cacheWritePricePerMillion),
+      cacheReadPricePerMillion: rate('cacheReadPricePerMillion', model.cacheReadPricePerMillion),
+      batchInputPricePerMillion: rate('batchInputPricePerMillion', model.batchInputPricePerMillion),
+      batchOutputPricePerMillion: rate('batchOutputPricePerMillion', model.batchOutputPricePerMillion),
+      tiers: set.has('tiers') ? model.tiers : model.tiers?.map((tier) => ({
+        ...tier,
+        inputPricePerMillion: tier.inputPricePerMillion * factor,
+        outputPricePerMillion: tier.outputPricePerMillion * factor,
+        cacheWritePricePerMillion: discount(tier.cacheWritePricePerMillion),
+        cacheReadPricePerMillion: discount(tier.cacheReadPricePerMillion),
+      })),
+      discountPercent: percent,
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * On-disk pricing cache
+ */
+export interface PricingCacheFile {
+  version: 1;
+  fetchedAt: string;
+  source: string;
+  pricing: Record<string, ModelPricing>;
+}
+
+/**
+ * Where the loaded pricing came from
+ */
+export interface PricingInfo {
+  origin: 'network' | 'cache' | 'fallback';
+  source: string;
+  fetchedAt: string | null;
+}
+
+export interface PricingOptions {
+  offline?: boolean; // Never hit the network; use the disk cache or bundled prices
+  refresh?: boolean; // Ignore cache freshness and fetch now
+  url?: string;
+  overrides?: PricingOverrides;
+  // Pricing table (or async loader) to use instead of the cache and community sources
+  source?: Record<string, ModelPricing> | (() => Promise<Record<string, ModelPricing>>);
+}
+
+const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Per-user cache directory (AI_TOKENS_CACHE_DIR overrides)
+ */
+export function getCacheDir(): string {
+  if (process.env.AI_TOKENS_CACHE_DIR) return process.env.AI_TOKENS_CACHE_DIR;
+
+  if (process.platform === 'win32') {
+    return join(process.env.LOCALAPPDATA || join(homedir(), 'AppData', 'Local'), 'ai-tokens', 'Cache');
+  }
+  if (process.platform === 'darwin') {
+    return join(homedir(), 'Library', 'Caches', 'ai-tokens');
+  }
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'ai-tokens');
+}
+
+export function getPricingCachePath(): string {
+  return join(getCacheDir(), 'pricing.json');
+}
+
+/**
+ * Read the on-disk cache, or null if missing or unreadable
+ */
+export function readPricingCache(): PricingCacheFile | null {
+  try {
+    const cache = JSON.parse(readFileSync(getPricingCachePath(), 'utf-8')) as PricingCacheFile;
+    return cache.version === 1 && cache.pricing ? cache : null;
+  } catch {
+    return null;
+  }
+}
+
+function writePricingCache(cache: PricingCacheFile): void {
+  const path = getPricingCachePath();
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(cache, null, 2));
+  } catch (error) {
+    console.warn(`Failed to write pricing cache ${path}:`, error instanceof Error ? error.message : String(error));
+  }
 }
 
 /**
  * Cache pricing data to avoid repeated fetches
  */
 let cachedPricing: Record<string, ModelPricing> | null = null;
-let cacheTimestamp: number = 0;
-const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+let cachedInfo: PricingInfo | null = null;
 
-export async function getCachedPricing(
-  fallbackPricing: Record<string, ModelPricing>
+export function getPricingInfo(): PricingInfo | null {
+  return cachedInfo;
+}
+
+/**
+ * Fetch community pricing and write it to the disk cache
+ * The cache holds community + bundled prices only; overrides are applied on load.
+ */
+async function fetchToCache(
+  fallbackPricing: Record<string, ModelPricing>,
+  url?: string
+): Promise<PricingCacheFile> {
+  const source = getPricingUrl(url);
+  const communityPricing = await fetchCommunityPricing(source);
+  const cache: PricingCacheFile = {
+    version: 1,
+    fetchedAt: new Date().toISOString(),
+    source,
+    pricing: mergePricing(communityPricing, fallbackPricing),
+  };
+
+  writePricingCache(cache);
+  return cache;
+}
+
+function useCache(
+  cache: PricingCacheFile,
+  origin: PricingInfo['origin'],
+  fallbackPricing: Record<string, ModelPricing>,
+  overrides?: PricingOverrides
+): Record<string, ModelPricing> {
+  // Re-merge on load so the current bundled table wins over cached copies of it
+  const community = Object.fromEntries(
+    Object.entries(cache.pricing).filter(([, model]) => model.source !== 'bundled')
+  );
+  cachedPricing = mergePricing(community, fallbackPricing, overrides);
+  cachedInfo = { origin, source: cache.source, fetchedAt: cache.fetchedAt };
+  return cachedPricing;
+}
+
+/**
+ * Fetch pricing now and write it to the disk cache
+ */
+export async function refreshPricing(
+  fallbackPricing: Record<string, ModelPricing>,
+  url?: string,
+  overrides?: PricingOverrides
 ): Promise<Record<string, ModelPricing>> {
-  const now = Date.now();
+  const cache = await fetchToCache(fallbackPricing, url);
+  return useCache(cache, 'network', fallbackPricing, overrides);
+}
 
-  // Return cached data if still valid
-  if (cachedPricing && now - cacheTimestamp < CACHE_DURATION) {
+export async function getCachedPricing(
+  fallbackPricing: Record<string, ModelPricing>,
+  options: PricingOptions = {}
+): Promise<Record<string, ModelPricing>> {
+  if (cachedPricing && !options.refresh) {
     return cachedPricing;
   }
 
-  // Fetch fresh data
-  try {
-    const communityPricing = await fetchCommunityPricing();
-    cachedPricing = mergePricing(communityPricing, fallbackPricing);
-    cacheTimestamp = now;
-    return cachedPricing;
-  } catch {
-    // Return fallback on error
-    return fallbackPricing;
+  // A cache fetched from another source (a changed --pricing-url or config) is a miss
+  const cache = readPricingCache();
+  const disk = cache && cache.source === getPricingUrl(options.url) ? cache : null;
+  const fresh = disk && Date.now() - Date.parse(disk.fetchedAt) < CACHE_DURATION;
+  if (disk && (options.offline || (fresh && !options.refresh))) {
+    return useCache(disk, 'cache', fallbackPricing, options.overrides);
+  }
+
+  if (!options.offline) {
+    // Fetch fresh data, falling back to a stale cache, then to bundled prices
+    let fetched: PricingCacheFile | null = null;
+    try {
+      fetched = await fetchToCache(fallbackPricing, options.url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Failed to fetch community pricing, using ${disk ? 'cached' : 'fallback'} pricing: ${message}`);
+    }
+
+    if (fetched) {
+      return useCache(fetched, 'network', fallbackPricing, options.overrides);
+    }
+    if (disk) {
+      return useCache(disk, 'cache', fallbackPricing, options.overrides);
+    }
   }
+
+  cachedPricing = mergePricing({}, fallbackPricing, options.overrides);
+  cachedInfo = { origin: 'fallback', source: 'bundled', fetchedAt: null };
+  return cachedPricing;
 }
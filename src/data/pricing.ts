@@ -5,41 +5,139 @@
  * Last updated: October 2025
  */
 
-import { getCachedPricing } from './pricing-fetcher.js';
+import { getCachedPricing, mergePricing, refreshPricing, type PricingOptions } from './pricing-fetcher.js';
 
 export interface ModelPricing {
   name: string;
   provider: string;
   inputPricePerMillion: number;
   outputPricePerMillion: number;
+  cacheWritePricePerMillion?: number; // Prompt caching: writing a prefix to the cache
+  cacheReadPricePerMillion?: number; // Prompt caching: reading a cached prefix
+  batchInputPricePerMillion?: number; // Batch API, when the model lists its own rate
+  batchOutputPricePerMillion?: number;
+  tiers?: PricingTier[]; // Long-context rates, applied to the whole request
+  reasoning?: boolean; // Bills hidden reasoning tokens as output (o-series, GPT-5, R1)
+  vision?: boolean; // Accepts image input
+  functionCalling?: boolean; // Accepts tool/function definitions
+  structuredOutput?: boolean; // Honors a JSON schema response format
   contextWindow: number;
-  encoding?: string;
+  maxOutputTokens?: number;
+  encoding?: string; // Tokenizer registry key (see core/tokenizer.ts)
+  source?: PricingSource;
+  discountPercent?: number; // Provider discount applied from project config
 }
 
+/**
+ * Rates that apply once the input exceeds a token threshold
+ */
+export interface PricingTier {
+  aboveInputTokens: number;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  cacheWritePricePerMillion?: number;
+  cacheReadPricePerMillion?: number;
+}
+
+/**
+ * Per-million rates used to price a single request
+ */
+export type PricingRates = Pick<
+  ModelPricing,
+  'inputPricePerMillion' | 'outputPricePerMillion' | 'cacheWritePricePerMillion' | 'cacheReadPricePerMillion'
+>;
+
+/**
+ * Where a model's price came from
+ */
+export type PricingSource = 'bundled' | 'community' | 'config' | 'custom';
+
+/**
+ * Reasoning effort presets: hidden reasoning tokens as a multiple of the
+ * visible output, with a floor (rough averages; use --reasoning-tokens to override)
+ */
+export const REASONING_EFFORT: Record<'low' | 'medium' | 'high', { multiplier: number; minimum: number }> = {
+  low: { multiplier: 1, minimum: 256 },
+  medium: { multiplier: 2, minimum: 1024 },
+  high: { multiplier: 5, minimum: 4096 },
+};
+
+export type ReasoningEffort = keyof typeof REASONING_EFFORT;
+
+/**
+ * Batch API discount (percent) by provider, for models without their own batch rates
+ */
+export const BATCH_DISCOUNTS: Record<string, number> = {
+  openai: 50,
+  anthropic: 50,
+  google: 50,
+};
+
 export const MODEL_PRICING: Record<string, ModelPricing> = {
-  // OpenAI GPT-4 Models
+  // OpenAI GPT-5 / GPT-4 Models
+  'gpt-5': {
+    name: 'GPT-5',
+    provider: 'OpenAI',
+    inputPricePerMillion: 1.25,
+    outputPricePerMillion: 10.00,
+    cacheReadPricePerMillion: 0.125,
+    reasoning: true,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
+    contextWindow: 272000,
+    maxOutputTokens: 128000,
+    encoding: 'o200k_base',
+  },
+  'gpt-5-mini': {
+    name: 'GPT-5 Mini',
+    provider: 'OpenAI',
+    inputPricePerMillion: 0.25,
+    outputPricePerMillion: 2.00,
+    cacheReadPricePerMillion: 0.025,
+    reasoning: true,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
+    contextWindow: 272000,
+    maxOutputTokens: 128000,
+    encoding: 'o200k_base',
+  },
   'gpt-4o': {
     name: 'GPT-4o',
     provider: 'OpenAI',
     inputPricePerMillion: 5.00,
     outputPricePerMillion: 15.00,
+    cacheReadPricePerMillion: 2.50,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 128000,
-    encoding: 'cl100k_base',
+    maxOutputTokens: 16384,
+    encoding: 'o200k_base',
   },
   'gpt-4o-mini': {
     name: 'GPT-4o Mini',
     provider: 'OpenAI',
     inputPricePerMillion: 0.15,
     outputPricePerMillion: 0.60,
+    cacheReadPricePerMillion: 0.075,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 128000,
-    encoding: 'cl100k_base',
+    maxOutputTokens: 16384,
+    encoding: 'o200k_base',
   },
   'gpt-4-turbo': {
     name: 'GPT-4 Turbo',
     provider: 'OpenAI',
     inputPricePerMillion: 10.00,
     outputPricePerMillion: 30.00,
+    vision: true,
+    functionCalling: true,
     contextWindow: 128000,
+    maxOutputTokens: 4096,
     encoding: 'cl100k_base',
   },
   'gpt-4': {
@@ -47,7 +145,9 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
     provider: 'OpenAI',
     inputPricePerMillion: 30.00,
     outputPricePerMillion: 60.00,
+    functionCalling: true,
     contextWindow: 8192,
+    maxOutputTokens: 8192,
     encoding: 'cl100k_base',
   },
   'gpt-3.5-turbo': {
@@ -55,7 +155,9 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
     provider: 'OpenAI',
     inputPricePerMillion: 0.50,
     outputPricePerMillion: 1.50,
+    functionCalling: true,
     contextWindow: 16385,
+    maxOutputTokens: 4096,
     encoding: 'cl100k_base',
   },
 
@@ -65,72 +167,181 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
     provider: 'Anthropic',
     inputPricePerMillion: 15.00,
     outputPricePerMillion: 75.00,
+    cacheWritePricePerMillion: 18.75,
+    cacheReadPricePerMillion: 1.50,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 200000,
+    maxOutputTokens: 32000,
+    encoding: 'anthropic-estimate',
   },
   'claude-sonnet-4': {
     name: 'Claude Sonnet 4',
     provider: 'Anthropic',
     inputPricePerMillion: 3.00,
     outputPricePerMillion: 15.00,
+    cacheWritePricePerMillion: 3.75,
+    cacheReadPricePerMillion: 0.30,
+    tiers: [
+      // 1M-token context (beta)
+      {
+        aboveInputTokens: 200000,
+        inputPricePerMillion: 6.00,
+        outputPricePerMillion: 22.50,
+        cacheWritePricePerMillion: 7.50,
+        cacheReadPricePerMillion: 0.60,
+      },
+    ],
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 200000,
+    maxOutputTokens: 64000,
+    encoding: 'anthropic-estimate',
   },
   'claude-sonnet-3-5': {
     name: 'Claude 3.5 Sonnet',
     provider: 'Anthropic',
     inputPricePerMillion: 3.00,
     outputPricePerMillion: 15.00,
+    cacheWritePricePerMillion: 3.75,
+    cacheReadPricePerMillion: 0.30,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 200000,
+    maxOutputTokens: 8192,
+    encoding: 'anthropic-estimate',
   },
   'claude-haiku-3-5': {
     name: 'Claude 3.5 Haiku',
     provider: 'Anthropic',
     inputPricePerMillion: 1.00,
     outputPricePerMillion: 5.00,
+    cacheWritePricePerMillion: 1.25,
+    cacheReadPricePerMillion: 0.10,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 200000,
+    maxOutputTokens: 8192,
+    encoding: 'anthropic-estimate',
   },
   'claude-3-opus': {
     name: 'Claude 3 Opus',
     provider: 'Anthropic',
     inputPricePerMillion: 15.00,
     outputPricePerMillion: 75.00,
+    cacheWritePricePerMillion: 18.75,
+    cacheReadPricePerMillion: 1.50,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 200000,
+    maxOutputTokens: 4096,
+    encoding: 'anthropic-estimate',
   },
   'claude-3-sonnet': {
     name: 'Claude 3 Sonnet',
     provider: 'Anthropic',
     inputPricePerMillion: 3.00,
     outputPricePerMillion: 15.00,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 200000,
+    maxOutputTokens: 4096,
+    encoding: 'anthropic-estimate',
   },
   'claude-3-haiku': {
     name: 'Claude 3 Haiku',
     provider: 'Anthropic',
     inputPricePerMillion: 0.25,
     outputPricePerMillion: 1.25,
+    cacheWritePricePerMillion: 0.30,
+    cacheReadPricePerMillion: 0.03,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 200000,
+    maxOutputTokens: 4096,
+    encoding: 'anthropic-estimate',
   },
 
   // Google Gemini Models
+  'gemini-2.5-pro': {
+    name: 'Gemini 2.5 Pro',
+    provider: 'Google',
+    inputPricePerMillion: 1.25,
+    outputPricePerMillion: 10.00,
+    cacheReadPricePerMillion: 0.31,
+    tiers: [
+      { aboveInputTokens: 200000, inputPricePerMillion: 2.50, outputPricePerMillion: 15.00, cacheReadPricePerMillion: 0.625 },
+    ],
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
+    contextWindow: 1048576,
+    maxOutputTokens: 65535,
+    encoding: 'google-estimate',
+  },
+  'gemini-2.5-flash': {
+    name: 'Gemini 2.5 Flash',
+    provider: 'Google',
+    inputPricePerMillion: 0.30,
+    outputPricePerMillion: 2.50,
+    cacheReadPricePerMillion: 0.075,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
+    contextWindow: 1048576,
+    maxOutputTokens: 65535,
+    encoding: 'google-estimate',
+  },
   'gemini-2.0-flash': {
     name: 'Gemini 2.0 Flash',
     provider: 'Google',
     inputPricePerMillion: 0.00,
     outputPricePerMillion: 0.00,
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 1000000,
+    maxOutputTokens: 8192,
+    encoding: 'google-estimate',
   },
   'gemini-1.5-pro': {
     name: 'Gemini 1.5 Pro',
     provider: 'Google',
     inputPricePerMillion: 1.25,
     outputPricePerMillion: 5.00,
+    cacheReadPricePerMillion: 0.3125,
+    tiers: [
+      { aboveInputTokens: 128000, inputPricePerMillion: 2.50, outputPricePerMillion: 10.00, cacheReadPricePerMillion: 0.625 },
+    ],
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 2000000,
+    maxOutputTokens: 8192,
+    encoding: 'google-estimate',
   },
   'gemini-1.5-flash': {
     name: 'Gemini 1.5 Flash',
     provider: 'Google',
     inputPricePerMillion: 0.075,
     outputPricePerMillion: 0.30,
+    cacheReadPricePerMillion: 0.01875,
+    tiers: [
+      { aboveInputTokens: 128000, inputPricePerMillion: 0.15, outputPricePerMillion: 0.60, cacheReadPricePerMillion: 0.0375 },
+    ],
+    vision: true,
+    functionCalling: true,
+    structuredOutput: true,
     contextWindow: 1000000,
+    maxOutputTokens: 8192,
+    encoding: 'google-estimate',
   },
 
   // Meta Llama (via various providers - using typical pricing)
@@ -140,6 +351,7 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
     inputPricePerMillion: 5.00,
     outputPricePerMillion: 15.00,
     contextWindow: 128000,
+    encoding: 'cl100k-estimate',
   },
   'llama-3.1-70b': {
     name: 'Llama 3.1 70B',
@@ -147,6 +359,7 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
     inputPricePerMillion: 0.90,
     outputPricePerMillion: 0.90,
     contextWindow: 128000,
+    encoding: 'cl100k-estimate',
   },
   'llama-3.1-8b': {
     name: 'Llama 3.1 8B',
@@ -154,6 +367,20 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
     inputPricePerMillion: 0.20,
     outputPricePerMillion: 0.20,
     contextWindow: 128000,
+    encoding: 'cl100k-estimate',
+  },
+
+  // DeepSeek
+  'deepseek-reasoner': {
+    name: 'DeepSeek Reasoner',
+    provider: 'DeepSeek',
+    inputPricePerMillion: 0.55,
+    outputPricePerMillion: 2.19,
+    cacheReadPricePerMillion: 0.14,
+    reasoning: true,
+    contextWindow: 64000,
+    maxOutputTokens: 64000,
+    encoding: 'cl100k-estimate',
   },
 };
 
@@ -173,6 +400,8 @@ export const MODEL_ALIASES: Record<string, string> = {
   'opus-4': 'claude-opus-4',
   'sonnet-4': 'claude-sonnet-4',
   'haiku-3.5': 'claude-haiku-3-5',
+  'claude-3-5-sonnet': 'claude-sonnet-3-5',
+  'claude-3-5-haiku': 'claude-haiku-3-5',
   'opus': 'claude-3-opus',
   'sonnet': 'claude-3-sonnet',
   'haiku': 'claude-3-haiku',
@@ -183,6 +412,15 @@ export const MODEL_ALIASES: Record<string, string> = {
   'gemini': 'gemini-1.5-pro',
 };
 
+/**
+ * Add model aliases (e.g. gateway-proxied names from project config)
+ */
+export function registerModelAliases(aliases: Record<string, string>): void {
+  Object.entries(aliases).forEach(([alias, model]) => {
+    MODEL_ALIASES[alias.toLowerCase()] = model.toLowerCase();
+  });
+}
+
 /**
  * Runtime pricing data (initialized with fallback, updated from community)
  */
@@ -190,18 +428,45 @@ let runtimePricing: Record<string, ModelPricing> = MODEL_PRICING;
 let pricingInitialized = false;
 
 /**
- * Initialize pricing from community sources
+ * Models added with registerModelPricing (kept across re-initialization)
  */
-export async function initializePricing(): Promise<void> {
-  if (pricingInitialized) return;
+const registeredPricing: Record<string, ModelPricing> = {};
 
-  try {
-    runtimePricing = await getCachedPricing(MODEL_PRICING);
-    pricingInitialized = true;
-  } catch (error) {
-    console.warn('Failed to fetch community pricing, using fallback:', error);
-    runtimePricing = MODEL_PRICING;
+/**
+ * Initialize pricing from an injected source, or community sources (or the on-disk cache)
+ */
+export async function initializePricing(options: PricingOptions = {}): Promise<void> {
+  if (pricingInitialized && !options.refresh && !options.source) return;
+
+  if (options.source) {
+    // Injected tables bypass the cache and network; bundled prices fill the gaps
+    const injected = typeof options.source === 'function' ? await options.source() : options.source;
+    const tagged = Object.fromEntries(
+      Object.entries(injected).map(([key, model]) => [key.toLowerCase(), { ...model, source: model.source || 'custom' }])
+    );
+    runtimePricing = mergePricing(tagged, MODEL_PRICING, options.overrides);
+  } else {
+    // getCachedPricing falls back to cached/bundled prices on fetch errors;
+    // anything thrown here is a refresh failure or an invalid override
+    runtimePricing = options.refresh
+      ? await refreshPricing(MODEL_PRICING, options.url, options.overrides)
+      : await getCachedPricing(MODEL_PRICING, options);
+  }
+  runtimePricing = { ...runtimePricing, ...registeredPricing };
+  pricingInitialized = true;
+}
+
+/**
+ * Add (or replace) a model's pricing at runtime
+ */
+export function registerModelPricing(model: string, pricing: ModelPricing): void {
+  if (!(pricing.inputPricePerMillion >= 0) || !(pricing.outputPricePerMillion >= 0)) {
+    throw new Error(`Model "${model}" needs inputPricePerMillion and outputPricePerMillion`);
   }
+
+  const key = model.toLowerCase();
+  registeredPricing[key] = { ...pricing, source: pricing.source || 'custom' };
+  runtimePricing = { ...runtimePricing, [key]: registeredPricing[key] };
 }
 
 /**
@@ -231,6 +496,47 @@ export function getAllModels(): ModelPricing[] {
   return Object.values(runtimePricing);
 }
 
+/**
+ * Get all available models with their lookup keys
+ */
+export function getAllModelEntries(): Array<[string, ModelPricing]> {
+  return Object.entries(runtimePricing);
+}
+
+/**
+ * Capabilities a model can be required to have, and the pricing flag behind each
+ */
+export const MODEL_CAPABILITIES: Record<'vision' | 'tools' | 'json', 'vision' | 'functionCalling' | 'structuredOutput'> = {
+  vision: 'vision',
+  tools: 'functionCalling',
+  json: 'structuredOutput',
+};
+
+export type ModelCapability = keyof typeof MODEL_CAPABILITIES;
+
+/**
+ * Criteria for picking models from the pricing table
+ */
+export interface ModelFilter {
+  provider?: string;
+  minContext?: number; // Context window, in tokens
+  requires?: ModelCapability[];
+}
+
+/**
+ * Keys of the loaded models matching a filter; unknown capabilities count as missing
+ */
+export function findModels(filter: ModelFilter = {}): string[] {
+  const provider = filter.provider?.toLowerCase();
+  return getAllModelEntries()
+    .filter(([, model]) =>
+      (!provider || model.provider.toLowerCase() === provider) &&
+      model.contextWindow >= (filter.minContext ?? 0) &&
+      (filter.requires || []).every((capability) => model[MODEL_CAPABILITIES[capability]] === true)
+    )
+    .map(([key]) => key);
+}
+
 /**
  * Get models by provider
  */
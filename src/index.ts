@@ -0,0 +1,114 @@
+/**
+ * ai-tokens library API
+ * Bundled prices are used until initializePricing() loads the cache, community
+ * sources or an injected table; call freeTokenizers() to release tiktoken encoders.
+ */
+
+// Pricing
+export {
+  BATCH_DISCOUNTS,
+  MODEL_ALIASES,
+  MODEL_CAPABILITIES,
+  MODEL_PRICING,
+  REASONING_EFFORT,
+  getAllModelEntries,
+  findModels,
+  getAllModels,
+  getModelPricing,
+  getModelsByProvider,
+  initializePricing,
+  registerModelAliases,
+  registerModelPricing,
+  type ModelCapability,
+  type ModelFilter,
+  type ModelPricing,
+  type PricingRates,
+  type PricingSource,
+  type PricingTier,
+  type ReasoningEffort,
+} from './data/pricing.js';
+export {
+  getPricingInfo,
+  type PricingInfo,
+  type PricingOptions,
+  type PricingOverrides,
+} from './data/pricing-fetcher.js';
+
+// Token counting
+export {
+  calibrateTokenizer,
+  countTokens,
+  freeTokenizers,
+  getModelEncoding,
+  getTokenBoundaries,
+  registerTokenizer,
+  setModelTokenizer,
+  type TokenCount,
+  type Tokenizer,
+} from './core/tokenizer.js';
+export { loadHuggingFaceTokenizer, useTokenizerFile } from './core/hf-tokenizer.js';
+export type { CalibrationSample, TokenEstimate, TokenRange } from './core/estimator.js';
+export {
+  countChatTokens,
+  parseChatRequest,
+  type ChatMessage,
+  type ChatRequest,
+  type ChatTokenCount,
+  type ChatToolCall,
+  type MessageTokenCount,
+} from './core/messages.js';
+export { countImageTokens, loadImage, type ImageDetail, type ImageInput } from './core/images.js';
+export {
+  countToolTokens,
+  parseResponseSchema,
+  parseToolDefinitions,
+  type ResponseSchema,
+  type ToolDefinition,
+  type ToolTokenCount,
+} from './core/tools.js';
+
+export {
+  EXPLAIN_MODES,
+  explainTokens,
+  type ExplainMode,
+  type ExplainReport,
+  type ExplainSection,
+} from './core/explain.js';
+
+export {
+  estimateTemplate,
+  loadDataset,
+  parseCsv,
+  renderTemplate,
+  type DataRow,
+  type TemplateReport,
+} from './core/template.js';
+
+export {
+  projectSpend,
+  type ModelProjection,
+  type ProjectionOptions,
+  type SpendProjection,
+} from './core/projection.js';
+
+// Cost
+export {
+  DEFAULT_OUTPUT_TOKENS,
+  calculateBatchCost,
+  calculateCost,
+  checkContextFit,
+  compareCosts,
+  compareSelectedModels,
+  formatCost,
+  getCostOptimizations,
+  type ContextFit,
+  type CostComparison,
+  type CostEstimate,
+  type CostInput,
+  type CostOptions,
+  type ModelSelection,
+} from './core/cost-calculator.js';
+
+// HTTP server
+export { createTokenServer, warmTokenizers, type ServerOptions } from './server/index.js';
+export { createCostGuardProxy, type ProxyOptions, type ProxyRecord } from './server/proxy.js';
@@ -0,0 +1,254 @@
+/**
+ * Local HTTP server (ai-tokens serve)
+ * JSON endpoints over the same calculateCost/compareCosts logic and output schemas as the CLI,
+ * for services that can't call the library directly.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import {
+  DEFAULT_OUTPUT_TOKENS,
+  calculateCost,
+  compareCosts,
+  compareSelectedModels,
+  type CostInput,
+  type CostOptions,
+  type ModelSelection,
+} from '../core/cost-calculator.js';
+import { parseChatRequest } from '../core/messages.js';
+import { parseResponseSchema, parseToolDefinitions } from '../core/tools.js';
+import { countTokens, getModelEncoding } from '../core/tokenizer.js';
+import { OUTPUT_SCHEMA_VERSION, toComparisonRecord, toEstimateRecord, toModelRecord } from '../ui/output.js';
+import {
+  MODEL_ALIASES,
+  MODEL_CAPABILITIES,
+  REASONING_EFFORT,
+  getAllModelEntries,
+  getModelPricing,
+  initializePricing,
+} from '../data/pricing.js';
+import { getPricingInfo, type PricingOptions } from '../data/pricing-fetcher.js';
+
+const MAX_BODY_BYTES = 100 * 1024 * 1024;
+
+export interface ServerOptions {
+  pricing?: PricingOptions; // Used to reload pricing (POST /pricing/reload)
+}
+
+/**
+ * An error answered with a status code other than 400
+ */
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body, null, 2);
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(json) });
+  res.end(json);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES / 1024 / 1024}MB`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+  } catch (error) {
+    throw new Error(`Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Request input: prompt text, or a chat request body ({ messages })
+ */
+function parseInput(body: any): CostInput {
+  if (typeof body.input === 'string') return body.input;
+  if (body.input && typeof body.input === 'object') return parseChatRequest(JSON.stringify(body.input));
+  throw new Error('"input" must be prompt text or a chat request with a "messages" array');
+}
+
+function parseOutputTokens(body: any): number {
+  const output = body.output ?? DEFAULT_OUTPUT_TOKENS;
+  if (!Number.isInteger(output) || output < 0) {
+    throw new Error('"output" must be a non-negative integer');
+  }
+  return output;
+}
+
+/**
+ * Cost options from a request body (same fields as the CLI flags, with tools and schemas inline)
+ */
+function parseCostOptions(body: any): CostOptions {
+  if (body.cachedPrefix !== undefined && !['number', 'string'].includes(typeof body.cachedPrefix)) {
+    throw new Error('"cachedPrefix" must be a token count or the prefix text');
+  }
+  if (body.reasoningEffort !== undefined && !(body.reasoningEffort in REASONING_EFFORT)) {
+    throw new Error(`"reasoningEffort" must be one of: ${Object.keys(REASONING_EFFORT).join(', ')}`);
+  }
+  if (body.reasoningTokens !== undefined && !Number.isInteger(body.reasoningTokens)) {
+    throw new Error('"reasoningTokens" must be an integer');
+  }
+  if (body.imageDetail !== undefined && !['low', 'high'].includes(body.imageDetail)) {
+    throw new Error('"imageDetail" must be one of: low, high');
+  }
+  if (body.images !== undefined && !Array.isArray(body.images)) {
+    throw new Error('"images" must be an array of { width, height }');
+  }
+
+  return {
+    cachedPrefix: body.cachedPrefix,
+    batch: Boolean(body.batch),
+    reasoningEffort: body.reasoningEffort,
+    reasoningTokens: body.reasoningTokens,
+    images: (body.images || []).map((image: any, index: number) => {
+      if (!(image?.width > 0) || !(image?.height > 0)) {
+        throw new Error(`Image ${index} needs a positive "width" and "height"`);
+      }
+      return { name: image.name || `image ${index + 1}`, width: image.width, height: image.height };
+    }),
+    imageDetail: body.imageDetail,
+    tools: body.tools !== undefined ? parseToolDefinitions(JSON.stringify(body.tools)) : undefined,
+    responseSchema: body.responseSchema !== undefined ? parseResponseSchema(JSON.stringify(body.responseSchema)) : undefined,
+  };
+}
+
+/**
+ * Model selection for /compare without a "models" list (same filters as compare's flags)
+ */
+function parseSelection(body: any): ModelSelection {
+  if (body.provider !== undefined && typeof body.provider !== 'string') {
+    throw new Error('"provider" must be a provider name');
+  }
+  if (body.maxPrice !== undefined && !(typeof body.maxPrice === 'number' && body.maxPrice >= 0)) {
+    throw new Error('"maxPrice" must be a non-negative amount');
+  }
+  if (body.minContext !== undefined && !(Number.isInteger(body.minContext) && body.minContext > 0)) {
+    throw new Error('"minContext" must be a positive integer');
+  }
+  if (body.requires !== undefined && (!Array.isArray(body.requires) || body.requires.some((c: unknown) => !(typeof c === 'string' && c in MODEL_CAPABILITIES)))) {
+    throw new Error(`"requires" must be an array of: ${Object.keys(MODEL_CAPABILITIES).join(', ')}`);
+  }
+  const top = body.top ?? 5;
+  if (!(Number.isInteger(top) && top > 0)) {
+    throw new Error('"top" must be a positive integer');
+  }
+  return { provider: body.provider, maxPrice: body.maxPrice, minContext: body.minContext, requires: body.requires, top };
+}
+
+function parseModel(value: unknown, field: string = 'model'): string {
+  if (value === undefined) return 'gpt-4o';
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`"${field}" must be a model name`);
+  }
+  return value;
+}
+
+/**
+ * Load each tokenizer once up front so the first requests aren't slow
+ */
+export function warmTokenizers(): number {
+  const warmed = new Set<string>();
+  for (const [key] of getAllModelEntries()) {
+    const encoding = getModelEncoding(key);
+    if (!warmed.has(encoding)) {
+      warmed.add(encoding);
+      countTokens('warm up', key);
+    }
+  }
+  return warmed.size;
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse, options: ServerOptions): Promise<void> {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const route = `${req.method} ${pathname}`;
+
+  if (route === 'GET /health') {
+    const info = getPricingInfo();
+    sendJson(res, 200, {
+      status: 'ok',
+      models: getAllModelEntries().length,
+      pricing: info || { origin: 'fallback', source: 'bundled', fetchedAt: null },
+    });
+    return;
+  }
+
+  if (route === 'POST /count') {
+    const body = await readJsonBody(req);
+    const estimate = calculateCost(parseInput(body), parseModel(body.model), parseOutputTokens(body), parseCostOptions(body));
+    sendJson(res, 200, toEstimateRecord(estimate));
+    return;
+  }
+
+  if (route === 'POST /compare') {
+    const body = await readJsonBody(req);
+    const model = parseModel(body.model);
+    if (body.models !== undefined && (!Array.isArray(body.models) || body.models.some((m: unknown) => typeof m !== 'string'))) {
+      throw new Error('"models" must be an array of model names');
+    }
+    const comparison = body.models
+      ? compareCosts(parseInput(body), model, body.models.filter((m: string) => m !== model), parseOutputTokens(body), parseCostOptions(body))
+      : compareSelectedModels(parseInput(body), model, parseSelection(body), parseOutputTokens(body), parseCostOptions(body));
+    sendJson(res, 200, toComparisonRecord(comparison));
+    return;
+  }
+
+  if (route === 'GET /models') {
+    sendJson(res, 200, {
+      schemaVersion: OUTPUT_SCHEMA_VERSION,
+      type: 'models',
+      models: getAllModelEntries().map(([key, model]) => toModelRecord(key, model)),
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && pathname.startsWith('/models/')) {
+    const id = decodeURIComponent(pathname.slice('/models/'.length)).toLowerCase();
+    const model = getModelPricing(id);
+    if (!model) {
+      throw new HttpError(404, `Unknown model: ${id}`);
+    }
+    sendJson(res, 200, { schemaVersion: OUTPUT_SCHEMA_VERSION, type: 'model', ...toModelRecord(MODEL_ALIASES[id] || id, model) });
+    return;
+  }
+
+  if (route === 'POST /pricing/reload') {
+    if (options.pricing?.offline) {
+      throw new HttpError(409, 'Pricing reload needs network access (server started with --offline)');
+    }
+    await initializePricing({ ...options.pricing, refresh: true });
+    warmTokenizers();
+    sendJson(res, 200, { status: 'reloaded', models: getAllModelEntries().length, pricing: getPricingInfo() });
+    return;
+  }
+
+  const known = ['/health', '/count', '/compare', '/models', '/pricing/reload'];
+  if (known.includes(pathname)) {
+    throw new HttpError(405, `${req.method} not allowed on ${pathname}`);
+  }
+  throw new HttpError(404, `Not found: ${pathname}`);
+}
+
+/**
+ * Create the HTTP server (call listen() to start it)
+ * Client errors are answered as { "error": message } with a 4xx status.
+ */
+export function createTokenServer(options: ServerOptions = {}): Server {
+  return createServer((req, res) => {
+    handle(req, res, options).catch((error) => {
+      const status = error instanceof HttpError ? error.status : 400;
+      sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+    });
+  });
+}
@@ -0,0 +1,274 @@
+/**
+ * Pre-flight cost guard proxy (ai-tokens proxy)
+ * Estimates OpenAI /v1/chat/completions and Anthropic /v1/messages requests with calculateCost,
+ * rejects those over the per-request or rolling limits, forwards the rest upstream
+ * and records the actual spend from each response's usage block.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { DEFAULT_OUTPUT_TOKENS, calculateCost, formatCost, type CostOptions } from '../core/cost-calculator.js';
+import { parseChatRequest } from '../core/messages.js';
+import { parseResponseSchema, parseToolDefinitions } from '../core/tools.js';
+import { parseStreamUsage, parseUsageLine, priceUsage, resolveSnapshotModel, type UsageEntry } from '../core/usage.js';
+import { REASONING_EFFORT } from '../data/pricing.js';
+
+const MAX_BODY_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Request headers not passed upstream (fetch sets its own framing; responses must be uncompressed to read usage)
+ */
+const HOP_HEADERS = ['host', 'connection', 'content-length', 'transfer-encoding', 'accept-encoding', 'keep-alive'];
+
+/**
+ * Guarded endpoints and the provider whose error shape they answer with
+ */
+const GUARDED_PATHS: Record<string, 'openai' | 'anthropic'> = {
+  '/v1/chat/completions': 'openai',
+  '/v1/messages': 'anthropic',
+};
+
+export interface ProxyOptions {
+  upstream: string; // Base URL; request paths are appended (e.g. https://api.openai.com)
+  maxRequestCost?: number; // USD per request
+  maxSpend?: number; // USD per rolling window
+  windowMs?: number; // Rolling window length (default 24h)
+  onRecord?: (record: ProxyRecord) => void; // Called after each forwarded request
+}
+
+/**
+ * One forwarded request: the pre-flight estimate and the actual spend
+ */
+export interface ProxyRecord {
+  at: Date;
+  path: string;
+  model: string;
+  status: number;
+  estimatedCost: number;
+  actualCost: number | null; // null when the response had no usage (or an unpriced model)
+  usage: UsageEntry | null;
+}
+
+/**
+ * Rolling-window spend: recorded costs plus estimates for requests still in flight
+ */
+class SpendWindow {
+  private entries: Array<{ at: number; cost: number }> = [];
+  private reserved = 0;
+
+  constructor(private windowMs: number) {}
+
+  spent(now: number = Date.now()): number {
+    this.entries = this.entries.filter((entry) => now - entry.at < this.windowMs);
+    return this.entries.reduce((sum, entry) => sum + entry.cost, 0) + this.reserved;
+  }
+
+  reserve(cost: number): void {
+    this.reserved += cost;
+  }
+
+  settle(reserved: number, cost: number): void {
+    this.reserved -= reserved;
+    this.entries.push({ at: Date.now(), cost });
+  }
+}
+
+/**
+ * A rejected or failed request, answered in the provider's error shape
+ */
+function sendError(
+  res: ServerResponse,
+  provider: 'openai' | 'anthropic',
+  status: number,
+  type: string,
+  message: string,
+  details: Record<string, unknown> = {}
+): void {
+  const body =
+    provider === 'anthropic'
+      ? { type: 'error', error: { type, message, ...details } }
+      : { error: { message, type, code: type, param: null, ...details } };
+  const json = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(json) });
+  res.end(json);
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES / 1024 / 1024}MB`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Pricing options from a provider request body: tools, response_format and reasoning_effort
+ * An explicit output cap (max_completion_tokens, or max_tokens with Anthropic thinking budgets)
+ * already covers reasoning, so no reasoning tokens are added on top of it.
+ */
+function requestCostOptions(body: any, capped: boolean): CostOptions {
+  return {
+    tools: Array.isArray(body.tools) ? parseToolDefinitions(JSON.stringify(body.tools)) : undefined,
+    responseSchema: body.response_format?.json_schema ? parseResponseSchema(JSON.stringify(body)) : undefined,
+    reasoningEffort: body.reasoning_effort in REASONING_EFFORT ? body.reasoning_effort : undefined,
+    reasoningTokens: capped ? 0 : undefined,
+  };
+}
+
+/**
+ * Forward a request and stream the response back, returning the response body for usage parsing
+ */
+async function forward(
+  req: IncomingMessage,
+  res: ServerResponse,
+  upstream: string,
+  body: Buffer | undefined,
+  extraHeaders: Record<string, string> = {}
+): Promise<{ status: number; text: string; streamed: boolean }> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined && !HOP_HEADERS.includes(name)) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+  }
+
+  const response = await fetch(upstream.replace(/\/+$/, '') + req.url, {
+    method: req.method,
+    headers,
+    body: body && body.length ? body : undefined,
+  });
+
+  const responseHeaders: Record<string, string> = { ...extraHeaders };
+  response.headers.forEach((value, name) => {
+    if (!['content-encoding', 'content-length', 'transfer-encoding', 'connection'].includes(name)) {
+      responseHeaders[name] = value;
+    }
+  });
+  res.writeHead(response.status, responseHeaders);
+
+  const chunks: Buffer[] = [];
+  if (response.body) {
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      const buffer = Buffer.from(chunk);
+      chunks.push(buffer);
+      res.write(buffer);
+    }
+  }
+  res.end();
+
+  return {
+    status: response.status,
+    text: Buffer.concat(chunks).toString('utf-8'),
+    streamed: (response.headers.get('content-type') || '').includes('text/event-stream'),
+  };
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse, options: ProxyOptions, window: SpendWindow): Promise<void> {
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  const provider = GUARDED_PATHS[path];
+  const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : await readBody(req);
+
+  // Everything else (model lists, embeddings, ...) passes through unguarded
+  if (!provider || req.method !== 'POST') {
+    await forward(req, res, options.upstream, body);
+    return;
+  }
+
+  let request: any;
+  let estimatedCost: number;
+  try {
+    request = JSON.parse(body!.toString('utf-8'));
+    if (typeof request?.model !== 'string') {
+      throw new Error('Request is missing a "model"');
+    }
+    const cap = request.max_completion_tokens ?? request.max_tokens;
+    estimatedCost = calculateCost(
+      parseChatRequest(JSON.stringify(request)),
+      resolveSnapshotModel(request.model), // Dated snapshots (claude-sonnet-4-20250514) price as their model
+      cap ?? DEFAULT_OUTPUT_TOKENS,
+      requestCostOptions(request, cap !== undefined)
+    ).totalCost;
+  } catch (error) {
+    // Requests that can't be priced are refused rather than let through unchecked
+    const message = error instanceof Error ? error.message : String(error);
+    sendError(res, provider, 400, 'cost_estimate_failed', `ai-tokens could not price this request: ${message}`);
+    return;
+  }
+
+  if (options.maxRequestCost !== undefined && estimatedCost > options.maxRequestCost) {
+    sendError(
+      res,
+      provider,
+      402,
+      'cost_limit_exceeded',
+      `Estimated cost ${formatCost(estimatedCost)} exceeds the per-request limit of ${formatCost(options.maxRequestCost)}`,
+      { limit: 'request', estimated_cost: estimatedCost, max_cost: options.maxRequestCost }
+    );
+    return;
+  }
+
+  const spent = window.spent();
+  if (options.maxSpend !== undefined && spent + estimatedCost > options.maxSpend) {
+    sendError(
+      res,
+      provider,
+      402,
+      'budget_exceeded',
+      `Estimated cost ${formatCost(estimatedCost)} would bring rolling spend to ${formatCost(spent + estimatedCost)}, ` +
+        `over the ${formatCost(options.maxSpend)} limit`,
+      { limit: 'rolling', estimated_cost: estimatedCost, spent, max_spend: options.maxSpend }
+    );
+    return;
+  }
+
+  window.reserve(estimatedCost);
+  let result: Awaited<ReturnType<typeof forward>> | null = null;
+  try {
+    result = await forward(req, res, options.upstream, body, { 'x-ai-tokens-estimated-cost': String(estimatedCost) });
+  } finally {
+    // Failed calls (no response, or an error status without usage) are settled at zero;
+    // successful responses without usage keep the estimate
+    const usage = result ? (result.streamed ? parseStreamUsage(result.text) : parseUsageLine(result.text)) : null;
+    const actualCost = usage ? priceUsage(usage) : null;
+    const failed = !result || (result.status >= 400 && !usage);
+    window.settle(estimatedCost, failed ? 0 : actualCost ?? estimatedCost);
+
+    if (result) {
+      options.onRecord?.({
+        at: new Date(),
+        path,
+        model: request.model,
+        status: result.status,
+        estimatedCost,
+        actualCost,
+        usage,
+      });
+    }
+  }
+}
+
+/**
+ * Create the proxy server (call listen() to start it)
+ */
+export function createCostGuardProxy(options: ProxyOptions): Server {
+  if (!/^https?:\/\//.test(options.upstream)) {
+    throw new Error(`Upstream must be an http(s) URL: ${options.upstream}`);
+  }
+  const window = new SpendWindow(options.windowMs ?? 24 * 60 * 60 * 1000);
+
+  return createServer((req, res) => {
+    handle(req, res, options, window).catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      const provider = GUARDED_PATHS[new URL(req.url || '/', 'http://localhost').pathname] || 'openai';
+      sendError(res, provider, 502, 'upstream_error', `ai-tokens proxy could not reach upstream: ${message}`);
+    });
+  });
+}
@@ -5,6 +5,11 @@
 import chalk from 'chalk';
 import Table from 'cli-table3';
 import type { CostEstimate, CostComparison } from '../core/cost-calculator.js';
+import type { ExplainReport } from '../core/explain.js';
+import type { SpendProjection } from '../core/projection.js';
+import type { ScanResult } from '../core/scanner.js';
+import type { TemplateReport } from '../core/template.js';
+import type { UsageReport, UsageTotals } from '../core/usage.js';
 import { formatCost, getCostOptimizations } from '../core/cost-calculator.js';
 
 /**
@@ -23,17 +28,144 @@ export function formatAnalysis(estimate: CostEstimate): string {
   // Model info
   lines.push(chalk.bold(`Model: ${chalk.cyan(estimate.pricing.name)}`));
   lines.push(chalk.gray(`Provider: ${estimate.pricing.provider}`));
+  lines.push(chalk.gray(`Tokenizer: ${estimate.tokenizer} (${estimate.exactTokens ? 'exact' : 'estimated'})`));
+  if (estimate.tier) {
+    lines.push(chalk.yellow(`Pricing Tier: long context (>${(estimate.tier.aboveInputTokens / 1000).toFixed(0)}K input tokens)`));
+  }
+  if (estimate.batch) {
+    lines.push(estimate.batch.supported
+      ? chalk.green(`Batch API: ${estimate.batch.discountPercent.toFixed(0)}% discount applied`)
+      : chalk.gray(`Batch API: not available for ${estimate.pricing.provider}; standard rates applied`));
+  }
   lines.push('');
 
   // Token counts
   lines.push(chalk.bold('Input Tokens:    ') + chalk.yellow(`${estimate.inputTokens.toLocaleString()} tokens`));
   lines.push(chalk.gray('Est. Cost:       ') + chalk.green(formatCost(estimate.inputCost)));
+  if (estimate.inputTokensRange) {
+    const { low, high } = estimate.inputTokensRange;
+    const lowCost = (low / 1_000_000) * estimate.rates.inputPricePerMillion;
+    const highCost = (high / 1_000_000) * estimate.rates.inputPricePerMillion;
+    lines.push(
+      chalk.gray('Likely Range:    ') +
+        chalk.yellow(`${low.toLocaleString()} – ${high.toLocaleString()} tokens`) +
+        chalk.gray(` (${formatCost(lowCost)} – ${formatCost(highCost)})`)
+    );
+  }
   lines.push('');
 
+  // Attached images, priced at the input rate
+  if (estimate.images && estimate.images.length > 0) {
+    lines.push(chalk.bold('Image Tokens:    ') + chalk.yellow(`${estimate.imageTokens.toLocaleString()} tokens`) + chalk.gray(` (${estimate.images.length} image${estimate.images.length === 1 ? '' : 's'})`));
+    lines.push(chalk.gray('Est. Cost:       ') + chalk.green(formatCost(estimate.imageCost)));
+    estimate.images.forEach((image) => {
+      lines.push(chalk.gray(`  ${image.name} (${image.width}×${image.height}) → ${image.tokens.toLocaleString()} tokens`));
+    });
+    lines.push('');
+  }
+
+  // Tool definitions and response schema, most expensive first
+  if (estimate.tools) {
+    const tools = estimate.tools;
+    lines.push(chalk.bold('Tool Tokens:     ') + chalk.yellow(`${estimate.toolTokens.toLocaleString()} tokens`) + chalk.gray(` (${tools.tools.length} tool${tools.tools.length === 1 ? '' : 's'})`));
+    lines.push(chalk.gray('Est. Cost:       ') + chalk.green(formatCost(estimate.toolCost)));
+
+    const table = new Table({
+      head: [chalk.bold('Tool'), chalk.bold('Tokens'), chalk.bold('Cost')],
+      style: {
+        head: [],
+        border: ['gray'],
+      },
+    });
+    const row = (name: string, tokens: number) => [
+      name,
+      chalk.yellow(tokens.toLocaleString()),
+      chalk.green(formatCost((tokens / 1_000_000) * estimate.rates.inputPricePerMillion)),
+    ];
+
+    [...tools.tools].sort((a, b) => b.tokens - a.tokens).forEach((tool) => table.push(row(tool.name, tool.tokens)));
+    if (tools.overheadTokens > 0) {
+      table.push(row(chalk.gray('(tool-use framing)'), tools.overheadTokens));
+    }
+    if (tools.schemaTokens > 0) {
+      table.push(row(chalk.gray('(response schema)'), tools.schemaTokens));
+    }
+
+    lines.push(table.toString());
+    lines.push('');
+  }
+
+  // Per-message breakdown for chat requests
+  if (estimate.messages && estimate.messages.length > 0) {
+    const table = new Table({
+      head: [
+        chalk.bold('#'),
+        chalk.bold('Role'),
+        chalk.bold('Content'),
+        chalk.bold('Framing'),
+        chalk.bold('Tokens'),
+      ],
+      style: {
+        head: [],
+        border: ['gray'],
+      },
+    });
+
+    estimate.messages.forEach((message) => {
+      table.push([
+        String(message.index),
+        message.name ? `${message.role} (${message.name})` : message.role,
+        message.contentTokens.toLocaleString(),
+        chalk.gray(message.overheadTokens.toLocaleString()),
+        chalk.yellow(message.tokens.toLocaleString()),
+      ]);
+    });
+
+    lines.push(chalk.bold('Messages:'));
+    lines.push(table.toString());
+    lines.push('');
+  }
+
+  // Prompt caching split
+  if (estimate.caching) {
+    const caching = estimate.caching;
+    lines.push(chalk.bold('Prompt Caching:'));
+    if (!caching.supported) {
+      lines.push(chalk.gray(`  ${estimate.pricing.name} has no cache pricing; the prefix is billed as normal input`));
+    }
+    lines.push(chalk.gray('  Cached prefix:  ') + chalk.yellow(`${caching.prefixTokens.toLocaleString()} tokens`));
+    lines.push(chalk.gray('  Uncached input: ') + chalk.yellow(`${caching.uncachedTokens.toLocaleString()} tokens`) + chalk.gray(` → ${formatCost(caching.uncachedInputCost)}`));
+    lines.push(chalk.gray('  Cache write:    ') + chalk.green(formatCost(caching.cacheWriteCost)) + chalk.gray(' (first call)'));
+    lines.push(chalk.gray('  Cache hit:      ') + chalk.green(formatCost(caching.cacheReadCost)) + chalk.gray(' (later calls)'));
+    lines.push(chalk.gray('  First call:     ') + chalk.yellow(formatCost(caching.firstCallCost)));
+    lines.push(chalk.gray('  Steady state:   ') + chalk.green(formatCost(caching.steadyStateCost)));
+    lines.push('');
+  }
+
   lines.push(chalk.bold('Output (est):    ') + chalk.yellow(`${estimate.outputTokens.toLocaleString()} tokens`));
   lines.push(chalk.gray('Est. Cost:       ') + chalk.green(formatCost(estimate.outputCost)));
   lines.push('');
 
+  if (estimate.reasoningTokens > 0) {
+    const effort = estimate.reasoningEffort ? ` (${estimate.reasoningEffort} effort)` : '';
+    lines.push(chalk.bold('Reasoning (est): ') + chalk.yellow(`${estimate.reasoningTokens.toLocaleString()} tokens`) + chalk.gray(effort));
+    lines.push(chalk.gray('Est. Cost:       ') + chalk.green(formatCost(estimate.reasoningCost)));
+    lines.push('');
+  }
+
+  // Context window usage
+  const fit = estimate.fit;
+  const fitColor = !fit.fits ? chalk.red : fit.percentUsed > 80 ? chalk.yellow : chalk.green;
+  lines.push(
+    chalk.bold('Context Window:  ') +
+      fitColor(`${fit.percentUsed.toFixed(1)}% used`) +
+      chalk.gray(` (${fit.requestTokens.toLocaleString()} / ${fit.contextWindow.toLocaleString()} tokens)`)
+  );
+  fit.problems.forEach((problem) => {
+    lines.push(chalk.red(`⚠️  Does not fit: ${problem}`));
+  });
+  lines.push('');
+
   // Total cost with visual emphasis
   const costColor = estimate.totalCost > 1 ? chalk.red : estimate.totalCost > 0.1 ? chalk.yellow : chalk.green;
   lines.push(chalk.bold('Total Cost:      ') + costColor.bold(formatCost(estimate.totalCost)));
@@ -70,13 +202,35 @@ export function formatComparison(comparison: CostComparison): string {
   // Current model
   lines.push(chalk.bold(`Current Model: ${chalk.cyan(comparison.current.pricing.name)}`));
   lines.push(chalk.bold(`Total Cost: ${chalk.yellow(formatCost(comparison.current.totalCost))}`));
+  if (comparison.current.imageTokens > 0) {
+    lines.push(chalk.gray(`Includes ${comparison.current.imageTokens.toLocaleString()} image tokens`));
+  }
+  if (!comparison.current.fit.fits) {
+    lines.push(chalk.red(`⚠️  Does not fit: ${comparison.current.fit.problems.join('; ')}`));
+  }
+  if (comparison.current.toolTokens > 0) {
+    lines.push(chalk.gray(`Includes ${comparison.current.toolTokens.toLocaleString()} tool definition tokens`));
+  }
+  if (comparison.current.reasoningTokens > 0) {
+    lines.push(chalk.gray(`Includes ${comparison.current.reasoningTokens.toLocaleString()} reasoning tokens`));
+  }
+  if (comparison.current.caching) {
+    lines.push(chalk.gray(`Costs are per cached call; first call: ${formatCost(comparison.current.caching.firstCallCost)}`));
+  }
+  if (comparison.current.batch) {
+    lines.push(chalk.gray('Costs use Batch API rates where the provider offers them'));
+  }
   lines.push('');
 
-  // Comparison table
+  // Comparison table (with a first-call column when a cached prefix is priced)
+  const showFirstCall = Boolean(comparison.current.caching);
+  const showReasoning = comparison.alternatives.some((alt) => alt.estimate.reasoningTokens > 0);
   const table = new Table({
     head: [
       chalk.bold('Model'),
       chalk.bold('Cost'),
+      ...(showFirstCall ? [chalk.bold('1st Call')] : []),
+      ...(showReasoning ? [chalk.bold('Reasoning')] : []),
       chalk.bold('Savings'),
       chalk.bold('%'),
     ],
@@ -90,9 +244,16 @@ export function formatComparison(comparison: CostComparison): string {
     const savingsColor = alt.savings > 0 ? chalk.green : chalk.red;
     const costColor = alt.estimate.totalCost < comparison.current.totalCost ? chalk.green : chalk.yellow;
 
+    const notes = [
+      alt.estimate.tier ? 'long ctx' : '',
+      alt.estimate.batch && !alt.estimate.batch.supported ? 'no batch' : '',
+    ].filter(Boolean);
+
     table.push([
-      alt.estimate.pricing.name,
+      alt.estimate.pricing.name + (notes.length > 0 ? chalk.gray(` (${notes.join(', ')})`) : ''),
       costColor(formatCost(alt.estimate.totalCost)),
+      ...(showFirstCall ? [chalk.gray(formatCost(alt.estimate.caching!.firstCallCost))] : []),
+      ...(showReasoning ? [chalk.gray(alt.estimate.reasoningTokens > 0 ? alt.estimate.reasoningTokens.toLocaleString() : '-')] : []),
       savingsColor(alt.savings > 0 ? `+${formatCost(alt.savings)}` : formatCost(alt.savings)),
       savingsColor(alt.savingsPercent > 0 ? `${alt.savingsPercent.toFixed(0)}%` : `-${Math.abs(alt.savingsPercent).toFixed(0)}%`),
     ]);
@@ -101,6 +262,14 @@ export function formatComparison(comparison: CostComparison): string {
   lines.push(table.toString());
   lines.push('');
 
+  // Alternatives that could not price this request
+  comparison.skipped.forEach((skip) => {
+    lines.push(chalk.gray(`Skipped ${skip.model}: ${skip.reason}`));
+  });
+  if (comparison.skipped.length > 0) {
+    lines.push('');
+  }
+
   // Best option
   if (comparison.alternatives.length > 0 && comparison.alternatives[0].savings > 0) {
     const best = comparison.alternatives[0];
@@ -115,6 +284,407 @@ export function formatComparison(comparison: CostComparison): string {
   return lines.join('\n');
 }
 
+/**
+ * Format per-file scan results with totals and the largest files
+ */
+export function formatScan(result: ScanResult, options: { sort?: 'tokens' | 'path'; top?: number } = {}): string {
+  const lines: string[] = [];
+
+  lines.push('');
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push(chalk.bold.cyan('           FILE SCAN           '));
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  lines.push(chalk.bold(`Files: ${chalk.cyan(result.files.length.toLocaleString())}`));
+  lines.push(chalk.gray(`Tokens counted with ${result.models[0]}`));
+  lines.push('');
+
+  const table = new Table({
+    head: [chalk.bold('File'), chalk.bold('Tokens'), ...result.models.map((model) => chalk.bold(model))],
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+
+  const files = options.sort === 'path'
+    ? result.files
+    : [...result.files].sort((a, b) => b.tokens - a.tokens);
+  files.forEach((file) => {
+    table.push([
+      file.path,
+      chalk.yellow(file.tokens.toLocaleString()),
+      ...result.models.map((model) => chalk.green(formatCost(file.costs[model]))),
+    ]);
+  });
+  table.push([
+    chalk.bold('Total'),
+    chalk.bold.yellow(result.totalTokens.toLocaleString()),
+    ...result.models.map((model) => chalk.bold.green(formatCost(result.totalCosts[model]))),
+  ]);
+
+  lines.push(table.toString());
+  lines.push('');
+
+  // Largest files
+  const top = [...result.files].sort((a, b) => b.tokens - a.tokens).slice(0, options.top ?? 10);
+  if (top.length > 0) {
+    lines.push(chalk.bold.cyan(`📄 Largest Files:`));
+    top.forEach((file, index) => {
+      const share = result.totalTokens > 0 ? (file.tokens / result.totalTokens) * 100 : 0;
+      lines.push(
+        chalk.gray(`  ${index + 1}. `) + file.path +
+          chalk.yellow(` ${file.tokens.toLocaleString()} tokens`) +
+          chalk.gray(` (${share.toFixed(1)}%)`)
+      );
+    });
+    lines.push('');
+  }
+
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a per-section token breakdown as a heatmap table
+ * Sections under 2 characters per token (base64, minified JSON, odd whitespace) are flagged.
+ */
+export function formatExplain(report: ExplainReport, options: { sort?: 'tokens' | 'position'; top?: number } = {}): string {
+  const lines: string[] = [];
+
+  lines.push('');
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push(chalk.bold.cyan('           TOKEN HEATMAP           '));
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  lines.push(chalk.bold(`Model: ${chalk.cyan(report.model)}`) + chalk.gray(` · by ${report.mode}`));
+  lines.push(chalk.gray(`Tokenizer: ${report.tokenizer} (${report.exactTokens ? 'exact' : 'estimated'})`));
+  lines.push(
+    chalk.bold('Total: ') +
+      chalk.yellow(`${report.totalTokens.toLocaleString()} tokens`) +
+      chalk.gray(' · ') +
+      chalk.green(formatCost(report.totalCost))
+  );
+  lines.push('');
+
+  const table = new Table({
+    head: ['Section', 'Lines', 'Tokens', 'Share', 'Chars/Token', 'Cost'].map((head) => chalk.bold(head)),
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+
+  const sorted = options.sort === 'tokens'
+    ? [...report.sections].sort((a, b) => b.tokens - a.tokens)
+    : report.sections;
+  const sections = options.top ? sorted.slice(0, options.top) : sorted;
+  sections.forEach((section) => {
+    const heat = section.share >= 20 ? chalk.red : section.share >= 5 ? chalk.yellow : chalk.green;
+    const bar = '█'.repeat(Math.max(section.tokens > 0 ? 1 : 0, Math.round(section.share / 5)));
+    const density = section.tokens > 0 ? section.characters / section.tokens : 0;
+    const label = report.mode === 'line' ? `${section.label} ${chalk.gray(section.preview)}` : section.label;
+    table.push([
+      label,
+      section.startLine === section.endLine ? String(section.startLine) : `${section.startLine}-${section.endLine}`,
+      chalk.yellow(section.tokens.toLocaleString()),
+      heat(`${bar} ${section.share.toFixed(1)}%`),
+      density > 0 && density < 2 ? chalk.red(`${density.toFixed(1)} ⚠️`) : chalk.gray(density.toFixed(1)),
+      chalk.green(formatCost(section.cost)),
+    ]);
+  });
+
+  lines.push(table.toString());
+  if (sections.length < report.sections.length) {
+    lines.push(chalk.gray(`  ...and ${report.sections.length - sections.length} more sections`));
+  }
+  lines.push('');
+
+  if (report.sections.some((section) => section.tokens > 0 && section.characters / section.tokens < 2)) {
+    lines.push(chalk.yellow('⚠️  Dense sections (< 2 chars/token) often hold base64, minified JSON or whitespace runs;'));
+    lines.push(chalk.yellow('   view their token boundaries with --tokens'));
+    lines.push('');
+  }
+
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Render token boundaries in alternating colors (newlines shown as ↵, tabs as →)
+ * Without color support, tokens are separated by | instead.
+ */
+export function formatTokenBoundaries(pieces: string[], tokenizer: string, note?: string): string {
+  const colors = [chalk.bgBlue.white, chalk.bgMagenta.white];
+  const rendered = chalk.level === 0
+    ? pieces.map((piece) => piece.replace(/\t/g, '→').replace(/\n/g, '↵\n')).join('|')
+    : pieces
+        .map((piece, index) => {
+          const color = colors[index % colors.length];
+          // Color each line of a token separately so backgrounds don't bleed across line breaks
+          return piece
+            .replace(/\t/g, '→')
+            .split('\n')
+            .map((part) => (part ? color(part) : ''))
+            .join(color('↵') + '\n');
+        })
+        .join('');
+
+  const lines: string[] = [];
+  lines.push(chalk.gray(`${pieces.length.toLocaleString()} tokens · ${tokenizer}`));
+  if (note) {
+    lines.push(chalk.yellow(note));
+  }
+  lines.push('');
+  lines.push(rendered);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a dataset-driven template estimate
+ */
+export function formatTemplate(report: TemplateReport): string {
+  const lines: string[] = [];
+
+  lines.push('');
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push(chalk.bold.cyan('           TEMPLATE BATCH ESTIMATE           '));
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  lines.push(chalk.bold(`Model: ${chalk.cyan(report.model)}`));
+  lines.push(chalk.bold('Rows:  ') + chalk.yellow(report.rows.toLocaleString()));
+  lines.push(chalk.bold('Total: ') + chalk.bold.green(formatCost(report.totalCost)) +
+    chalk.gray(` (${report.totalInputTokens.toLocaleString()} input tokens)`));
+  lines.push('');
+
+  const table = new Table({
+    head: ['Per call', 'Mean', 'p50', 'p95', 'Max'].map((head) => chalk.bold(head)),
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+  const tokens = (n: number) => chalk.yellow(Math.round(n).toLocaleString());
+  const cost = (n: number) => chalk.green(formatCost(n));
+  table.push(['Input tokens', tokens(report.inputTokens.mean), tokens(report.inputTokens.p50), tokens(report.inputTokens.p95), tokens(report.inputTokens.max)]);
+  table.push(['Cost', cost(report.cost.mean), cost(report.cost.p50), cost(report.cost.p95), cost(report.cost.max)]);
+  lines.push(table.toString());
+  lines.push('');
+
+  if (report.overflows.length > 0) {
+    const count = report.overflows.length;
+    lines.push(chalk.bold.red(`🚫 ${count.toLocaleString()} ${count === 1 ? 'row exceeds' : 'rows exceed'} the context window:`));
+    report.overflows.slice(0, 10).forEach((overflow) => {
+      lines.push(chalk.red(`  Row ${overflow.row}: `) + chalk.gray(overflow.problems.join('; ')));
+    });
+    if (report.overflows.length > 10) {
+      lines.push(chalk.gray(`  ...and ${report.overflows.length - 10} more`));
+    }
+    lines.push('');
+  }
+
+  const missing = Object.entries(report.missingVariables);
+  if (missing.length > 0) {
+    lines.push(chalk.bold.yellow('⚠️  Missing variables (rendered empty):'));
+    missing.forEach(([name, rows]) => {
+      lines.push(chalk.yellow(`  {{${name}}}`) + chalk.gray(` in ${rows.toLocaleString()} rows`));
+    });
+    lines.push('');
+  }
+
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a month-by-month spend projection
+ */
+export function formatProjection(projection: SpendProjection): string {
+  const lines: string[] = [];
+  const { assumptions } = projection;
+  const models = [projection.current, ...projection.alternatives];
+
+  lines.push('');
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push(chalk.bold.cyan('           SPEND PROJECTION           '));
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  lines.push(chalk.gray(
+    `${assumptions.inputTokens.toLocaleString()} input + ${assumptions.outputTokens.toLocaleString()} output tokens/call · ` +
+      `${assumptions.callsPerDay.toLocaleString()} calls/day · ${assumptions.growthPercent}% monthly growth`
+  ));
+  if (assumptions.cacheHitRate > 0 || assumptions.batchShare > 0) {
+    lines.push(chalk.gray(
+      `${(assumptions.cacheHitRate * 100).toFixed(0)}% cache hits · ${(assumptions.batchShare * 100).toFixed(0)}% via Batch API`
+    ));
+  }
+  lines.push('');
+
+  const table = new Table({
+    head: [chalk.bold('Month'), chalk.bold('Calls'), ...models.map((model, index) =>
+      index === 0 ? chalk.bold.cyan(`${model.model} (current)`) : chalk.bold(model.model)
+    )],
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+  projection.months.forEach((month, index) => {
+    table.push([
+      month.month,
+      chalk.yellow(month.calls.toLocaleString()),
+      ...models.map((model) => chalk.green(formatCost(model.costs[index]))),
+    ]);
+  });
+  table.push([
+    chalk.bold('Total'),
+    chalk.bold.yellow(projection.months.reduce((sum, month) => sum + month.calls, 0).toLocaleString()),
+    ...models.map((model) => chalk.bold.green(formatCost(model.total))),
+  ]);
+  table.push([
+    chalk.gray('Per call'),
+    '',
+    ...models.map((model) => chalk.gray(formatCost(model.costPerCall))),
+  ]);
+
+  lines.push(table.toString());
+  lines.push('');
+
+  const cheapest = projection.alternatives[0];
+  if (cheapest && cheapest.total < projection.current.total) {
+    const savings = projection.current.total - cheapest.total;
+    lines.push(chalk.bold.green(
+      `💡 ${cheapest.model} would save ${formatCost(savings)} over ${projection.months.length} months ` +
+        `(${((savings / projection.current.total) * 100).toFixed(0)}%)`
+    ));
+    lines.push('');
+  }
+  projection.skipped.forEach((skip) => {
+    lines.push(chalk.gray(`Skipped ${skip.model}: ${skip.reason}`));
+  });
+  if (projection.skipped.length > 0) {
+    lines.push('');
+  }
+
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format actual spend from usage logs
+ */
+export function formatUsage(report: UsageReport): string {
+  const lines: string[] = [];
+
+  lines.push('');
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push(chalk.bold.cyan('           ACTUAL USAGE           '));
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  lines.push(chalk.bold('Requests:        ') + chalk.yellow(report.total.requests.toLocaleString()));
+  lines.push(chalk.bold('Total Spend:     ') + chalk.green.bold(formatCost(report.total.cost)));
+  if (report.skippedLines > 0) {
+    lines.push(chalk.gray(`Skipped ${report.skippedLines.toLocaleString()} lines without a usage block`));
+  }
+  if (report.unpricedModels.length > 0) {
+    lines.push(chalk.yellow(`⚠️  No pricing for: ${report.unpricedModels.join(', ')} (counted as $0)`));
+  }
+  lines.push('');
+
+  // Spend tables, most expensive first (days in date order)
+  const usageTable = (label: string, groups: Record<string, UsageTotals>, byKey: boolean = false) => {
+    const table = new Table({
+      head: [
+        chalk.bold(label),
+        chalk.bold('Requests'),
+        chalk.bold('Input'),
+        chalk.bold('Cached'),
+        chalk.bold('Output'),
+        chalk.bold('Reasoning'),
+        chalk.bold('Cost'),
+      ],
+      style: {
+        head: [],
+        border: ['gray'],
+      },
+    });
+
+    Object.entries(groups)
+      .sort(([a, x], [b, y]) => (byKey ? a.localeCompare(b) : y.cost - x.cost))
+      .forEach(([key, totals]) => {
+        table.push([
+          key,
+          totals.requests.toLocaleString(),
+          chalk.yellow(totals.inputTokens.toLocaleString()),
+          chalk.gray(totals.cachedTokens.toLocaleString()),
+          chalk.yellow(totals.outputTokens.toLocaleString()),
+          chalk.gray(totals.reasoningTokens.toLocaleString()),
+          chalk.green(formatCost(totals.cost)),
+        ]);
+      });
+
+    lines.push(chalk.bold(`By ${label}:`));
+    lines.push(table.toString());
+    lines.push('');
+  };
+
+  usageTable('Model', report.byModel);
+  usageTable('Day', report.byDay, true);
+  if (report.byTag) {
+    usageTable(report.tagField || 'Tag', report.byTag);
+  }
+
+  // Actual output lengths against the default estimate
+  const table = new Table({
+    head: [chalk.bold('Model'), chalk.bold('Avg Output'), chalk.bold('Median'), chalk.bold('p90'), chalk.bold('Avg Reasoning'), chalk.bold('vs Default')],
+    style: {
+      head: [],
+      border: ['gray'],
+    },
+  });
+  report.output.forEach((stats) => {
+    const ratio = stats.average / report.defaultOutputTokens;
+    const ratioColor = ratio > 1.5 || ratio < 0.5 ? chalk.yellow : chalk.green;
+    table.push([
+      stats.model,
+      chalk.yellow(stats.average.toLocaleString()),
+      stats.median.toLocaleString(),
+      stats.p90.toLocaleString(),
+      chalk.gray(stats.averageReasoning.toLocaleString()),
+      ratioColor(`${ratio.toFixed(1)}x`),
+    ]);
+  });
+
+  lines.push(chalk.bold(`Output Tokens (estimates assume ${report.defaultOutputTokens}):`));
+  lines.push(table.toString());
+  report.output
+    .filter((stats) => Math.abs(stats.median - report.defaultOutputTokens) > report.defaultOutputTokens * 0.5)
+    .forEach((stats) => {
+      lines.push(chalk.gray('  • ') + `Estimate ${stats.model} with ${chalk.cyan(`-o ${stats.median}`)}` + chalk.gray(' (median actual output)'));
+    });
+  lines.push('');
+
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push('');
+
+  return lines.join('\n');
+}
+
 /**
  * Format fun cost comparisons
  */
@@ -161,7 +731,38 @@ export function formatWarning(cost: number, threshold: number = 1.00): string {
  * Format simple token count (for piping)
  */
 export function formatSimple(tokenCount: number, cost: number, model: string): string {
-  return `${tokenCount} tokens | ${formatCost(cost)} | ${model}`;
+  return `${tokenCount} tokens | $${cost.toFixed(4)} | ${model}`;
+}
+
+/**
+ * Format the live delta shown by --watch: change since the last save and since the session started
+ */
+export function formatWatchDelta(
+  current: { tokens: number; cost: number },
+  last: { tokens: number; cost: number } | null,
+  start: { tokens: number; cost: number },
+  changed: string[] = []
+): string {
+  const delta = (tokens: number, cost: number) => {
+    if (tokens === 0 && Math.abs(cost) < 1e-12) return chalk.gray('no change');
+    const color = tokens > 0 || cost > 0 ? chalk.red : chalk.green;
+    const sign = (n: number) => (n > 0 ? '+' : n < 0 ? '-' : '±');
+    return color(
+      `${sign(tokens)}${Math.abs(tokens).toLocaleString()} tokens  ${sign(cost)}${formatCost(Math.abs(cost))}`
+    );
+  };
+
+  const lines: string[] = [];
+  lines.push(chalk.cyan('━'.repeat(70)));
+  lines.push(
+    chalk.bold('Last save:  ') + (last ? delta(current.tokens - last.tokens, current.cost - last.cost) : chalk.gray('—'))
+  );
+  lines.push(chalk.bold('Session:    ') + delta(current.tokens - start.tokens, current.cost - start.cost));
+  const files = changed.length ? ` · ${changed.join(', ')}` : '';
+  lines.push(chalk.gray(`Updated ${new Date().toLocaleTimeString()}${files} · watching (Ctrl+C to stop)`));
+  lines.push('');
+
+  return lines.join('\n');
 }
 
 /**
@@ -179,7 +780,11 @@ export function formatProgress(current: number, max: number, label: string = '')
 /**
  * Format budget status
  */
-export function formatBudgetStatus(spent: number, limit: number): string {
+export function formatBudgetStatus(
+  spent: number,
+  limit: number,
+  period?: { name: string; since: Date | null }
+): string {
   const lines: string[] = [];
   const percentage = (spent / limit) * 100;
 
@@ -194,10 +799,16 @@ export function formatBudgetStatus(spent: number, limit: number): string {
 
   lines.push(chalk.bold('Spent:      ') + chalk.yellow(formatCost(spent)));
   lines.push(chalk.bold('Limit:      ') + chalk.gray(formatCost(limit)));
-  lines.push(chalk.bold('Remaining:  ') + chalk.green(formatCost(limit - spent)));
+  lines.push(chalk.bold('Remaining:  ') + (spent > limit ? chalk.red(`-${formatCost(spent - limit)}`) : chalk.green(formatCost(limit - spent))));
+  if (period) {
+    const since = period.since ? ` (since ${period.since.toLocaleDateString()})` : '';
+    lines.push(chalk.bold('Period:     ') + chalk.gray(`${period.name}${since}`));
+  }
   lines.push('');
 
-  if (percentage > 90) {
+  if (percentage > 100) {
+    lines.push(chalk.bold.red('🚨 Budget exceeded!'));
+  } else if (percentage > 90) {
     lines.push(chalk.bold.red('🚨 WARNING: Budget almost exhausted!'));
   } else if (percentage > 75) {
     lines.push(chalk.bold.yellow('⚠️  Approaching budget limit'));
@@ -0,0 +1,457 @@
+/**
+ * Machine-readable output (--format json|ndjson|csv|markdown)
+ * Records follow a versioned schema; bump OUTPUT_SCHEMA_VERSION when a record's shape changes.
+ * json prints the full record; ndjson, csv and markdown print flat rows.
+ */
+
+import type { ContextFit, CostComparison, CostEstimate } from '../core/cost-calculator.js';
+import type { ExplainReport } from '../core/explain.js';
+import type { ImageTokenCount } from '../core/images.js';
+import type { MessageTokenCount } from '../core/messages.js';
+import type { ModelProjection, SpendProjection } from '../core/projection.js';
+import type { ScanResult } from '../core/scanner.js';
+import type { Distribution, TemplateReport } from '../core/template.js';
+import type { UsageReport } from '../core/usage.js';
+import type { ModelPricing } from '../data/pricing.js';
+
+export const OUTPUT_SCHEMA_VERSION = 2; // 2: estimates carry message, image and tool breakdowns
+
+export const OUTPUT_FORMATS = ['text', 'json', 'ndjson', 'csv', 'markdown'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+type Row = Record<string, string | number | boolean | null>;
+
+/**
+ * Drop floating-point noise (e.g. 0.0000049999999999999996 -> 0.000005)
+ */
+const round = (value: number) => Number(value.toPrecision(12));
+
+/**
+ * A priced request (count), in USD
+ */
+export interface EstimateRecord {
+  schemaVersion: number;
+  type: 'estimate';
+  model: string;
+  modelName: string;
+  provider: string;
+  tokenizer: string;
+  exactTokens: boolean;
+  tokens: {
+    input: number;
+    inputRange: { low: number; high: number } | null;
+    images: number;
+    tools: number;
+    output: number;
+    reasoning: number;
+  };
+  cost: {
+    input: number;
+    images: number;
+    tools: number;
+    output: number;
+    reasoning: number;
+    total: number;
+  };
+  rates: {
+    inputPerMillion: number;
+    outputPerMillion: number;
+    cacheWritePerMillion: number | null;
+    cacheReadPerMillion: number | null;
+  };
+  longContextTier: boolean;
+  batchDiscountPercent: number | null;
+  caching: { prefixTokens: number; firstCallCost: number; steadyStateCost: number } | null;
+  contextFit: Omit<ContextFit, 'maxOutputTokens'> & { maxOutputTokens: number | null };
+  messages: MessageTokenCount[] | null; // Chat requests only
+  images: ImageTokenCount[] | null;
+  tools: {
+    tools: Array<{ name: string; tokens: number; cost: number }>;
+    overheadTokens: number;
+    schemaTokens: number;
+  } | null;
+}
+
+/**
+ * A model comparison (compare)
+ */
+export interface ComparisonRecord {
+  schemaVersion: number;
+  type: 'comparison';
+  current: EstimateRecord;
+  alternatives: Array<{ model: string; savings: number; savingsPercent: number; estimate: EstimateRecord }>;
+  skipped: Array<{ model: string; reason: string }>;
+}
+
+/**
+ * A model and its pricing (models)
+ */
+export interface ModelRecord {
+  key: string;
+  name: string;
+  provider: string;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  cacheWritePricePerMillion: number | null;
+  cacheReadPricePerMillion: number | null;
+  contextWindow: number;
+  maxOutputTokens: number | null;
+  reasoning: boolean;
+  vision: boolean;
+  functionCalling: boolean;
+  structuredOutput: boolean;
+  source: string;
+}
+
+/**
+ * A file scan (scan)
+ */
+export interface ScanRecord {
+  schemaVersion: number;
+  type: 'scan';
+  models: string[];
+  files: Array<{ path: string; tokens: number; costs: Record<string, number> }>;
+  totalTokens: number;
+  totalCosts: Record<string, number>;
+}
+
+/**
+ * Actual spend from usage logs (usage)
+ */
+export interface UsageRecord extends UsageReport {
+  schemaVersion: number;
+  type: 'usage';
+}
+
+/**
+ * A per-section token breakdown (explain)
+ */
+export interface ExplainRecord extends ExplainReport {
+  schemaVersion: number;
+  type: 'explain';
+}
+
+/**
+ * Token boundaries (explain --tokens)
+ */
+export interface TokensRecord {
+  schemaVersion: number;
+  type: 'tokens';
+  model: string;
+  tokenizer: string;
+  fallback: boolean; // Boundaries from o200k_base because the model's tokenizer only counts
+  tokens: string[];
+}
+
+/**
+ * A dataset-driven template estimate (template)
+ */
+export interface TemplateRecord extends TemplateReport {
+  schemaVersion: number;
+  type: 'template';
+}
+
+/**
+ * A monthly spend projection (project)
+ */
+export interface ProjectionRecord extends SpendProjection {
+  schemaVersion: number;
+  type: 'projection';
+}
+
+export function toEstimateRecord(estimate: CostEstimate): EstimateRecord {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    type: 'estimate',
+    model: estimate.model,
+    modelName: estimate.pricing.name,
+    provider: estimate.pricing.provider,
+    tokenizer: estimate.tokenizer,
+    exactTokens: estimate.exactTokens,
+    tokens: {
+      input: estimate.inputTokens,
+      inputRange: estimate.inputTokensRange || null,
+      images: estimate.imageTokens,
+      tools: estimate.toolTokens,
+      output: estimate.outputTokens,
+      reasoning: estimate.reasoningTokens,
+    },
+    cost: {
+      input: round(estimate.inputCost),
+      images: round(estimate.imageCost),
+      tools: round(estimate.toolCost),
+      output: round(estimate.outputCost),
+      reasoning: round(estimate.reasoningCost),
+      total: round(estimate.totalCost),
+    },
+    rates: {
+      inputPerMillion: round(estimate.rates.inputPricePerMillion),
+      outputPerMillion: round(estimate.rates.outputPricePerMillion),
+      cacheWritePerMillion: estimate.rates.cacheWritePricePerMillion === undefined ? null : round(estimate.rates.cacheWritePricePerMillion),
+      cacheReadPerMillion: estimate.rates.cacheReadPricePerMillion === undefined ? null : round(estimate.rates.cacheReadPricePerMillion),
+    },
+    longContextTier: Boolean(estimate.tier),
+    batchDiscountPercent: estimate.batch?.supported ? estimate.batch.discountPercent : null,
+    caching: estimate.caching
+      ? {
+          prefixTokens: estimate.caching.prefixTokens,
+          firstCallCost: round(estimate.caching.firstCallCost),
+          steadyStateCost: round(estimate.caching.steadyStateCost),
+        }
+      : null,
+    contextFit: {
+      ...estimate.fit,
+      percentUsed: round(estimate.fit.percentUsed),
+      maxOutputTokens: estimate.fit.maxOutputTokens ?? null,
+    },
+    messages: estimate.messages || null,
+    images: estimate.images || null,
+    tools: estimate.tools
+      ? {
+          tools: estimate.tools.tools.map((tool) => ({
+            ...tool,
+            cost: round((tool.tokens / 1_000_000) * estimate.rates.inputPricePerMillion),
+          })),
+          overheadTokens: estimate.tools.overheadTokens,
+          schemaTokens: estimate.tools.schemaTokens,
+        }
+      : null,
+  };
+}
+
+export function toComparisonRecord(comparison: CostComparison): ComparisonRecord {
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    type: 'comparison',
+    current: toEstimateRecord(comparison.current),
+    alternatives: comparison.alternatives.map((alt) => ({
+      model: alt.model,
+      savings: round(alt.savings),
+      savingsPercent: round(alt.savingsPercent),
+      estimate: toEstimateRecord(alt.estimate),
+    })),
+    skipped: comparison.skipped,
+  };
+}
+
+export function toModelRecord(key: string, model: ModelPricing): ModelRecord {
+  return {
+    key,
+    name: model.name,
+    provider: model.provider,
+    inputPricePerMillion: model.inputPricePerMillion,
+    outputPricePerMillion: model.outputPricePerMillion,
+    cacheWritePricePerMillion: model.cacheWritePricePerMillion ?? null,
+    cacheReadPricePerMillion: model.cacheReadPricePerMillion ?? null,
+    contextWindow: model.contextWindow,
+    maxOutputTokens: model.maxOutputTokens ?? null,
+    reasoning: Boolean(model.reasoning),
+    vision: Boolean(model.vision),
+    functionCalling: Boolean(model.functionCalling),
+    structuredOutput: Boolean(model.structuredOutput),
+    source: model.source || 'bundled',
+  };
+}
+
+export function toScanRecord(result: ScanResult): ScanRecord {
+  const roundCosts = (costs: Record<string, number>) =>
+    Object.fromEntries(Object.entries(costs).map(([model, cost]) => [model, round(cost)]));
+
+  return {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    type: 'scan',
+    models: result.models,
+    files: result.files.map((file) => ({ ...file, costs: roundCosts(file.costs) })),
+    totalTokens: result.totalTokens,
+    totalCosts: roundCosts(result.totalCosts),
+  };
+}
+
+/**
+ * Flatten an estimate into a row
+ */
+function estimateRow(record: EstimateRecord): Row {
+  return {
+    model: record.model,
+    provider: record.provider,
+    exactTokens: record.exactTokens,
+    inputTokens: record.tokens.input,
+    imageTokens: record.tokens.images,
+    toolTokens: record.tokens.tools,
+    outputTokens: record.tokens.output,
+    reasoningTokens: record.tokens.reasoning,
+    inputCost: record.cost.input,
+    imageCost: record.cost.images,
+    toolCost: record.cost.tools,
+    outputCost: record.cost.output,
+    reasoningCost: record.cost.reasoning,
+    totalCost: record.cost.total,
+    contextPercentUsed: record.contextFit.percentUsed,
+    fits: record.contextFit.fits,
+  };
+}
+
+function csvCell(value: Row[string]): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: Row[string]): string {
+  return value === null ? '' : String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Render a record in a machine-readable format
+ */
+function render(format: Exclude<OutputFormat, 'text'>, record: object, rows: Row[]): string {
+  if (format === 'json') {
+    return JSON.stringify(record, null, 2);
+  }
+  if (format === 'ndjson') {
+    return rows.map((row) => JSON.stringify({ schemaVersion: OUTPUT_SCHEMA_VERSION, ...row })).join('\n');
+  }
+
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const cells = (row: Row, cell: (value: Row[string]) => string) => columns.map((column) => cell(row[column] ?? null));
+  if (format === 'csv') {
+    return [columns.join(','), ...rows.map((row) => cells(row, csvCell).join(','))].join('\n');
+  }
+
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${cells(row, markdownCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+export function formatEstimateOutput(estimate: CostEstimate, format: Exclude<OutputFormat, 'text'>): string {
+  const record = toEstimateRecord(estimate);
+  // Breakdown rows follow the estimate row
+  const rows: Row[] = [
+    { type: 'estimate', ...estimateRow(record) },
+    ...(record.messages || []).map((message) => ({ type: 'message', ...message, name: message.name ?? null })),
+    ...(record.images || []).map((image) => ({ type: 'image', ...image })),
+    ...(record.tools?.tools || []).map((tool) => ({ type: 'tool', ...tool })),
+  ];
+  return render(format, record, rows);
+}
+
+export function formatComparisonOutput(comparison: CostComparison, format: Exclude<OutputFormat, 'text'>): string {
+  const record = toComparisonRecord(comparison);
+  const rows: Row[] = [
+    { type: 'current', ...estimateRow(record.current), savings: 0, savingsPercent: 0 },
+    ...record.alternatives.map((alt) => ({
+      type: 'alternative',
+      ...estimateRow(alt.estimate),
+      savings: alt.savings,
+      savingsPercent: alt.savingsPercent,
+    })),
+  ];
+  return render(format, record, rows);
+}
+
+export function formatModelsOutput(models: Array<[string, ModelPricing]>, format: Exclude<OutputFormat, 'text'>): string {
+  const records = models.map(([key, model]) => toModelRecord(key, model));
+  return render(
+    format,
+    { schemaVersion: OUTPUT_SCHEMA_VERSION, type: 'models', models: records },
+    records.map((record) => ({ type: 'model', ...record }))
+  );
+}
+
+export function formatScanOutput(result: ScanResult, format: Exclude<OutputFormat, 'text'>): string {
+  const record = toScanRecord(result);
+  const rows: Row[] = record.files.map((file) => ({
+    type: 'file',
+    path: file.path,
+    tokens: file.tokens,
+    ...Object.fromEntries(record.models.map((model) => [`cost:${model}`, file.costs[model]])),
+  }));
+  return render(format, record, rows);
+}
+
+export function formatUsageOutput(report: UsageReport, format: Exclude<OutputFormat, 'text'>): string {
+  const record: UsageRecord = { schemaVersion: OUTPUT_SCHEMA_VERSION, type: 'usage', ...report };
+  const groups: Array<[string, Record<string, UsageReport['total']> | undefined]> = [
+    ['model', report.byModel],
+    ['day', report.byDay],
+    ['tag', report.byTag],
+  ];
+  const rows: Row[] = groups.flatMap(([group, totals]) =>
+    Object.entries(totals || {}).map(([key, total]) => ({ type: group, key, ...total, cost: round(total.cost) }))
+  );
+  return render(format, record, rows);
+}
+
+export function formatExplainOutput(report: ExplainReport, format: Exclude<OutputFormat, 'text'>): string {
+  const record: ExplainRecord = {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    type: 'explain',
+    ...report,
+    totalCost: round(report.totalCost),
+    sections: report.sections.map((section) => ({ ...section, share: round(section.share), cost: round(section.cost) })),
+  };
+  return render(format, record, record.sections.map((section) => ({ type: 'section', ...section })));
+}
+
+export function formatTokensOutput(
+  boundaries: { pieces: string[]; tokenizer: string; fallback: boolean },
+  model: string,
+  format: Exclude<OutputFormat, 'text'>
+): string {
+  const record: TokensRecord = {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    type: 'tokens',
+    model,
+    tokenizer: boundaries.tokenizer,
+    fallback: boundaries.fallback,
+    tokens: boundaries.pieces,
+  };
+  return render(format, record, boundaries.pieces.map((text, index) => ({ type: 'token', index, text })));
+}
+
+export function formatTemplateOutput(report: TemplateReport, format: Exclude<OutputFormat, 'text'>): string {
+  const roundDistribution = (d: Distribution): Distribution => ({
+    mean: round(d.mean),
+    p50: round(d.p50),
+    p95: round(d.p95),
+    max: round(d.max),
+  });
+  const record: TemplateRecord = {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    type: 'template',
+    ...report,
+    totalCost: round(report.totalCost),
+    cost: roundDistribution(report.cost),
+    inputTokens: roundDistribution(report.inputTokens),
+    calls: report.calls.map((call) => ({ ...call, cost: round(call.cost) })),
+  };
+  return render(format, record, record.calls.map((call) => ({ type: 'row', ...call })));
+}
+
+export function formatProjectionOutput(projection: SpendProjection, format: Exclude<OutputFormat, 'text'>): string {
+  const roundModel = (model: ModelProjection): ModelProjection => ({
+    ...model,
+    costPerCall: round(model.costPerCall),
+    costs: model.costs.map(round),
+    total: round(model.total),
+  });
+  const record: ProjectionRecord = {
+    schemaVersion: OUTPUT_SCHEMA_VERSION,
+    type: 'projection',
+    ...projection,
+    current: roundModel(projection.current),
+    alternatives: projection.alternatives.map(roundModel),
+  };
+
+  // One row per month with a cost column per model (spreadsheet-friendly)
+  const models = [record.current, ...record.alternatives];
+  const rows: Row[] = record.months.map((month, index) => ({
+    type: 'month',
+    month: month.month,
+    calls: month.calls,
+    ...Object.fromEntries(models.map((model) => [`cost:${model.model}`, model.costs[index]])),
+  }));
+  return render(format, record, rows);
+}
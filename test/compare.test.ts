@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { compareSelectedModels } from '../src/core/cost-calculator.js';
+import { findModels, getModelPricing, initializePricing, registerModelPricing } from '../src/data/pricing.js';
+
+const PROMPT = 'Summarize this document in three bullet points.';
+const TOOLS = [{ name: 'lookup', description: 'Look up a record', parameters: { type: 'object', properties: {} } }];
+
+describe('findModels', () => {
+  it('filters by provider, case-insensitively', () => {
+    const models = findModels({ provider: 'anthropic' });
+    expect(models.length).toBeGreaterThan(0);
+    expect(models.every((key) => getModelPricing(key)!.provider === 'Anthropic')).toBe(true);
+  });
+
+  it('filters by context window', () => {
+    const models = findModels({ minContext: 500000 });
+    expect(models).toContain('gemini-1.5-pro');
+    expect(models.every((key) => getModelPricing(key)!.contextWindow >= 500000)).toBe(true);
+  });
+
+  it('requires every listed capability, treating unknown flags as missing', () => {
+    const models = findModels({ requires: ['tools', 'json'] });
+    expect(models).toContain('gpt-4o-mini');
+    expect(models).not.toContain('gpt-3.5-turbo'); // Tools, but no structured output
+    expect(models).not.toContain('llama-3.1-8b'); // No flags at all
+  });
+});
+
+describe('compareSelectedModels', () => {
+  it('ranks candidates by total cost and keeps the top N', () => {
+    const comparison = compareSelectedModels(PROMPT, 'gpt-4o', { top: 3 });
+    const costs = comparison.alternatives.map((alt) => alt.estimate.totalCost);
+    expect(costs).toHaveLength(3);
+    expect(costs).toEqual([...costs].sort((a, b) => a - b));
+  });
+
+  it('excludes the current model, including through an alias', () => {
+    const comparison = compareSelectedModels(PROMPT, 'gpt-4o', { provider: 'openai' });
+    expect(comparison.alternatives.map((alt) => alt.model)).not.toContain('gpt-4o');
+  });
+
+  it('drops candidates over the max price', () => {
+    const comparison = compareSelectedModels(PROMPT, 'gpt-4o', { maxPrice: 0.001 });
+    expect(comparison.alternatives.length).toBeGreaterThan(0);
+    expect(comparison.alternatives.every((alt) => alt.estimate.totalCost <= 0.001)).toBe(true);
+  });
+
+  it('skips candidates that cannot take the request', () => {
+    const comparison = compareSelectedModels('word '.repeat(20000), 'gpt-4o', { provider: 'openai' });
+    expect(comparison.skipped.map((skip) => skip.model)).toEqual(expect.arrayContaining(['gpt-4', 'gpt-3.5-turbo']));
+  });
+
+  it('skips models known to lack tool calling when tools are sent', () => {
+    registerModelPricing('no-tools-model', {
+      name: 'No Tools',
+      provider: 'Test',
+      inputPricePerMillion: 0.01,
+      outputPricePerMillion: 0.01,
+      contextWindow: 128000,
+      functionCalling: false,
+    });
+    const comparison = compareSelectedModels(PROMPT, 'gpt-4o', { provider: 'test' }, 500, { tools: TOOLS });
+    expect(comparison.alternatives).toEqual([]);
+    expect(comparison.skipped).toEqual([{ model: 'no-tools-model', reason: 'No Tools does not support tool calling' }]);
+  });
+
+  it('errors when nothing matches', () => {
+    expect(() => compareSelectedModels(PROMPT, 'gpt-4o', { provider: 'nobody' })).toThrow('No models match');
+  });
+
+  it('picks up models from an injected pricing table', async () => {
+    await initializePricing({
+      source: {
+        'cheap-vision': {
+          name: 'Cheap Vision',
+          provider: 'Injected',
+          inputPricePerMillion: 0.01,
+          outputPricePerMillion: 0.01,
+          contextWindow: 32000,
+          vision: true,
+        },
+      },
+    });
+    const comparison = compareSelectedModels(PROMPT, 'gpt-4o', { provider: 'injected', requires: ['vision'] });
+    expect(comparison.alternatives.map((alt) => alt.model)).toEqual(['cheap-vision']);
+    expect(comparison.current.pricing.name).toBe('GPT-4o'); // Bundled prices fill the gaps
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calibrateProfile,
+  classifyCharacters,
+  DEFAULT_PROFILES,
+  detectContentType,
+  estimateTokens,
+  type CharClass,
+} from '../src/core/estimator.js';
+
+const profile = DEFAULT_PROFILES['anthropic-estimate'];
+const weighted = (text: string) =>
+  Object.entries(classifyCharacters(text)).reduce((sum, [cls, count]) => sum + count * profile.weights[cls as CharClass], 0);
+
+describe('detectContentType', () => {
+  it('recognizes prose, code, JSON and CJK', () => {
+    expect(detectContentType('The quick brown fox jumps over the lazy dog.')).toBe('prose');
+    expect(detectContentType('function add(a, b) { return a + b; }\nconst x = add(1, 2);')).toBe('code');
+    expect(detectContentType('  {"name": "ai-tokens", "tags": ["cli"]}\n')).toBe('json');
+    expect(detectContentType('今日は良い天気ですね。散歩に行きましょう。')).toBe('cjk');
+  });
+
+  it('judges long inputs by their opening rather than parsing them', () => {
+    const records = Array.from({ length: 2000 }, (_, i) => `{"id": ${i}, "text": "row ${i}"}`);
+    expect(detectContentType(`[${records.join(',')}]`)).toBe('json');
+    // Truncated, so unparseable, but still JSON by its opening
+    expect(detectContentType(`[${records.join(',')}`)).toBe('json');
+    expect(detectContentType(`{\n  if (x) return;\n}\n${'plain words here '.repeat(2000)}`)).not.toBe('json');
+  });
+});
+
+describe('estimateTokens', () => {
+  it('scales the point estimate by content type', () => {
+    const json = '{"name": "ai-tokens", "version": "1.0.0", "private": true}';
+    const estimate = estimateTokens(json, profile);
+    expect(estimate.contentType).toBe('json');
+    expect(estimate.tokens).toBe(Math.ceil(weighted(json) * profile.factors.json));
+    expect(estimate.tokens).toBeGreaterThan(Math.ceil(weighted(json)));
+  });
+
+  it('brackets the point estimate with the content type uncertainty', () => {
+    const estimate = estimateTokens('The quick brown fox jumps over the lazy dog.', profile);
+    expect(estimate.low).toBeLessThan(estimate.tokens);
+    expect(estimate.high).toBeGreaterThan(estimate.tokens);
+  });
+});
+
+describe('calibrateProfile', () => {
+  it('fits a factor for content types with enough samples', () => {
+    const code = ['let a = f(x);', 'if (y > 2) { z(); }', 'return [a, b];', 'const q = {k: 1};'];
+    const prose = ['Hello there, friend.', 'A short sentence.', 'Another line of text.', 'Words and more words.'];
+    const samples = [
+      ...prose.map((text) => ({ text, tokens: Math.round(weighted(text)) })),
+      ...code.map((text) => ({ text, tokens: Math.round(weighted(text) * 1.5) })),
+    ];
+
+    const calibrated = calibrateProfile(profile, samples);
+    expect(calibrated.factors.code).toBeGreaterThan(calibrated.factors.prose);
+    expect(calibrated.factors.json).toBe(profile.factors.json); // No JSON samples
+  });
+});
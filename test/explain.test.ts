@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { explainTokens } from '../src/core/explain.js';
+import { countTokens } from '../src/core/tokenizer.js';
+
+const DOC = [
+  'Intro line',
+  '# Setup',
+  'Install it.',
+  '```bash',
+  '# not a heading',
+  'npm install',
+  '```',
+  '## Usage',
+  'Run it.',
+].join('\n');
+
+describe('explainTokens', () => {
+  it('splits by heading and ignores headings inside code fences', () => {
+    const report = explainTokens(DOC, 'gpt-4o', 'heading');
+    expect(report.sections.map((s) => [s.label, s.startLine, s.endLine])).toEqual([
+      ['(before first heading)', 1, 1],
+      ['# Setup', 2, 7],
+      ['## Usage', 8, 9],
+    ]);
+  });
+
+  it('splits fenced code blocks from the prose around them', () => {
+    const report = explainTokens(DOC, 'gpt-4o', 'code');
+    expect(report.sections.map((s) => [s.label, s.startLine, s.endLine])).toEqual([
+      ['text', 1, 3],
+      ['code (bash)', 4, 7],
+      ['text', 8, 9],
+    ]);
+  });
+
+  it('gives one section per line, covering every character', () => {
+    const report = explainTokens(DOC, 'gpt-4o', 'line');
+    expect(report.sections).toHaveLength(9);
+    expect(report.sections.reduce((sum, s) => sum + s.characters, 0)).toBe(DOC.length);
+  });
+
+  it('reports the whole-input total and shares of it', () => {
+    const report = explainTokens(DOC, 'gpt-4o', 'heading');
+    expect(report.totalTokens).toBe(countTokens(DOC, 'gpt-4o').tokens);
+    const shares = report.sections.reduce((sum, s) => sum + s.share, 0);
+    expect(shares).toBeGreaterThan(95);
+    expect(shares).toBeLessThan(105);
+  });
+
+  it('rejects unknown models and modes', () => {
+    expect(() => explainTokens(DOC, 'no-such-model')).toThrow('Unknown model');
+    expect(() => explainTokens(DOC, 'gpt-4o', 'word' as any)).toThrow('Explain mode');
+  });
+});
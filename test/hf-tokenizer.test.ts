@@ -0,0 +1,52 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { buildBpeEncoder, loadHuggingFaceTokenizer } from '../src/core/hf-tokenizer.js';
+
+const fixture = (name: string) => join(__dirname, 'fixtures', name);
+const encoder = (name: string) => buildBpeEncoder(JSON.parse(readFileSync(fixture(name), 'utf-8')));
+
+describe('byte-level BPE', () => {
+  const encode = encoder('byte-level-bpe.json');
+
+  it('applies merges by rank, not position', () => {
+    // "l o" outranks "l l", so hello merges as he·l·lo -> hel·lo -> hello (not he·ll·o)
+    expect(encode('hello world!')).toEqual([15, 20, 0]);
+  });
+
+  it('maps UTF-8 bytes through the GPT-2 byte table', () => {
+    expect(encode('é')).toEqual([9, 8]); // 0xC3 -> Ã, 0xA9 -> ©
+  });
+});
+
+describe('Llama 3 split pattern', () => {
+  const encode = encoder('llama3-split.json');
+
+  it('expands (?i:...) contractions and splits digits in threes', () => {
+    // Case-insensitive 'll splits 'LLAMA; numbers group as 123·45
+    expect(encode("I'LLAMA pay 12345")).toEqual([100, 101, 102, 104, 105, 106, 107]);
+  });
+});
+
+describe('SentencePiece byte fallback', () => {
+  const encode = encoder('sentencepiece-byte-fallback.json');
+
+  it('prepends the metaspace and falls back to byte tokens', () => {
+    // ▁hi ▁ <0xC3> <0xA9>
+    expect(encode('hi é')).toEqual([263, 259, 198, 172]);
+  });
+});
+
+describe('loadHuggingFaceTokenizer', () => {
+  it('counts exactly with the encoder', () => {
+    const tokenizer = loadHuggingFaceTokenizer(fixture('sentencepiece-byte-fallback.json'));
+    expect(tokenizer.exact).toBe(true);
+    expect(tokenizer.name).toBe('hf:sentencepiece-byte-fallback.json');
+    expect(tokenizer.count('hi é')).toBe(4);
+  });
+
+  it('reports unreadable files on first use', () => {
+    const tokenizer = loadHuggingFaceTokenizer(fixture('missing.json'));
+    expect(() => tokenizer.count('hi')).toThrow('Failed to load tokenizer');
+  });
+});
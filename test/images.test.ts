@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { countImageTokens } from '../src/core/images.js';
+import { calculateCost } from '../src/core/cost-calculator.js';
+
+const image = (width: number, height: number) => ({ name: 'test.png', width, height });
+
+describe('countImageTokens', () => {
+  it('uses gpt-4o tile math by default', () => {
+    // 2048x4096 -> 1024x2048 -> 768x1536: 2x3 tiles
+    expect(countImageTokens(image(2048, 4096), 'OpenAI', 'high', 'gpt-4o')).toBe(85 + 170 * 6);
+    expect(countImageTokens(image(2048, 4096), 'OpenAI', 'low', 'gpt-4o')).toBe(85);
+    expect(countImageTokens(image(2048, 4096), 'OpenAI')).toBe(85 + 170 * 6);
+  });
+
+  it('keys tile costs by model family, including dated snapshots', () => {
+    expect(countImageTokens(image(1024, 1024), 'OpenAI', 'high', 'gpt-4o-mini')).toBe(2833 + 5667 * 4);
+    expect(countImageTokens(image(1024, 1024), 'OpenAI', 'high', 'gpt-4o-mini-2024-07-18')).toBe(2833 + 5667 * 4);
+    expect(countImageTokens(image(1024, 1024), 'OpenAI', 'high', 'o1')).toBe(75 + 150 * 4);
+    expect(countImageTokens(image(1024, 1024), 'OpenAI', 'low', 'gpt-5')).toBe(70);
+  });
+
+  it('counts 32px patches for patch models', () => {
+    // 1024x1024: 32x32 patches
+    expect(countImageTokens(image(1024, 1024), 'OpenAI', 'high', 'gpt-4.1-mini')).toBe(Math.ceil(1024 * 1.62));
+    // OpenAI's example: 1800x2400 scales down to 33x44 = 1452 patches
+    expect(countImageTokens(image(1800, 2400), 'OpenAI', 'high', 'o4-mini')).toBe(Math.ceil(1452 * 1.72));
+    expect(countImageTokens(image(1800, 2400), 'OpenAI', 'high', 'gpt-5-nano')).toBe(Math.ceil(1452 * 2.46));
+  });
+
+  it('ignores the model for other providers', () => {
+    expect(countImageTokens(image(1000, 1000), 'Anthropic', 'high', 'gpt-4o-mini')).toBe(Math.ceil((1000 * 1000) / 750));
+    expect(countImageTokens(image(1000, 1000), 'Google', 'high', 'gemini-1.5-pro')).toBe(258);
+  });
+
+  it('prices images with the model being estimated', () => {
+    const mini = calculateCost('Describe this', 'gpt-4o-mini', 100, { images: [image(512, 512)] });
+    const full = calculateCost('Describe this', 'gpt-4o', 100, { images: [image(512, 512)] });
+    expect(mini.imageTokens).toBe(2833 + 5667);
+    expect(full.imageTokens).toBe(85 + 170);
+  });
+});
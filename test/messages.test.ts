@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { countChatTokens, getContentText, parseChatRequest } from '../src/core/messages.js';
+import { countTokens } from '../src/core/tokenizer.js';
+
+const RESULT = JSON.stringify({ rows: Array.from({ length: 200 }, (_, i) => ({ id: i, status: 'shipped', city: 'Lisbon' })) });
+
+describe('getContentText', () => {
+  it('serializes Anthropic tool_use inputs and flattens tool_result content', () => {
+    const text = getContentText([
+      { type: 'text', text: 'Checking.' },
+      { type: 'tool_use', id: 'tu_1', name: 'lookup', input: { order: 42 } },
+      { type: 'tool_result', tool_use_id: 'tu_1', content: [{ type: 'text', text: 'found' }] },
+      { type: 'tool_result', tool_use_id: 'tu_2', content: 'plain result' },
+    ]);
+    expect(text).toBe('Checking.\n{"name":"lookup","input":{"order":42}}\nfound\nplain result');
+  });
+});
+
+describe('countChatTokens with tool calls', () => {
+  it('counts OpenAI tool_calls arguments and tool results', () => {
+    const request = parseChatRequest(JSON.stringify({
+      messages: [
+        { role: 'user', content: 'Where are my orders?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'list_orders', arguments: '{"customer":"c_123"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: RESULT },
+      ],
+    }));
+
+    const count = countChatTokens(request, 'gpt-4o');
+    const [, call, result] = count.messages;
+    expect(call.contentTokens).toBe(countTokens('list_orders\n{"customer":"c_123"}', 'gpt-4o').tokens);
+    expect(result.contentTokens).toBe(countTokens(RESULT, 'gpt-4o').tokens);
+    expect(count.tokens).toBeGreaterThan(1000);
+  });
+
+  it('counts an Anthropic tool-use transcript', () => {
+    const request = parseChatRequest(JSON.stringify({
+      system: 'You track orders.',
+      messages: [
+        { role: 'user', content: 'Where are my orders?' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'tu_1', name: 'list_orders', input: { customer: 'c_123' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tu_1', content: RESULT }] },
+      ],
+    }));
+
+    const count = countChatTokens(request, 'claude-sonnet-4');
+    expect(count.messages[2].contentTokens).toBeGreaterThan(0);
+    expect(count.messages[3].contentTokens).toBe(countTokens(RESULT, 'claude-sonnet-4').tokens);
+  });
+});
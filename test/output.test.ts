@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCost } from '../src/core/cost-calculator.js';
+import { formatEstimateOutput, OUTPUT_SCHEMA_VERSION, toEstimateRecord } from '../src/ui/output.js';
+
+const REQUEST = {
+  messages: [
+    { role: 'system', content: 'You are terse.' },
+    { role: 'user', content: 'What is in this picture?' },
+  ],
+};
+const OPTIONS = {
+  images: [{ name: 'photo.png', width: 1024, height: 768 }],
+  tools: [{ name: 'lookup', description: 'Look up a record', parameters: { type: 'object', properties: {} } }],
+};
+
+describe('estimate records', () => {
+  it('carry the message, image and tool breakdowns', () => {
+    const record = toEstimateRecord(calculateCost(REQUEST, 'gpt-4o', 100, OPTIONS));
+
+    expect(record.schemaVersion).toBe(OUTPUT_SCHEMA_VERSION);
+    expect(record.messages!.map((message) => message.role)).toEqual(['system', 'user']);
+    expect(record.images).toEqual([expect.objectContaining({ name: 'photo.png', tokens: record.tokens.images })]);
+    expect(record.tools!.tools.map((tool) => tool.name)).toEqual(['lookup']);
+    const toolTokens = record.tools!.tools[0].tokens + record.tools!.overheadTokens + record.tools!.schemaTokens;
+    expect(toolTokens).toBe(record.tokens.tools);
+  });
+
+  it('leave the breakdowns null for plain text', () => {
+    const record = toEstimateRecord(calculateCost('Hello', 'gpt-4o'));
+    expect(record.messages).toBeNull();
+    expect(record.images).toBeNull();
+    expect(record.tools).toBeNull();
+  });
+
+  it('add a CSV row per breakdown entry after the estimate', () => {
+    const csv = formatEstimateOutput(calculateCost(REQUEST, 'gpt-4o', 100, OPTIONS), 'csv');
+    const types = csv.split('\n').slice(1).map((line) => line.split(',')[0]);
+    expect(types).toEqual(['estimate', 'message', 'message', 'image', 'tool']);
+  });
+});
@@ -0,0 +1,127 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MODEL_PRICING } from '../src/data/pricing.js';
+import { fetchCommunityPricing, getPricingUrl, mergePricing } from '../src/data/pricing-fetcher.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'ai-tokens-'));
+
+async function community(data: object) {
+  const path = join(dir, `litellm-${Math.random().toString(36).slice(2)}.json`);
+  writeFileSync(path, JSON.stringify(data));
+  return fetchCommunityPricing(path);
+}
+
+describe('mergePricing', () => {
+  it('keeps bundled tiers, limits and capability flags the community source omits', async () => {
+    const pricing = mergePricing(
+      await community({
+        'claude-sonnet-4-20250514': { input_cost_per_token: 3.3e-6, output_cost_per_token: 1.5e-5 },
+        'gemini-2.5-pro': { input_cost_per_token: 1.25e-6, output_cost_per_token: 1e-5, max_input_tokens: 1048576 },
+      }),
+      MODEL_PRICING
+    );
+
+    const sonnet = pricing['claude-sonnet-4'];
+    expect(sonnet.inputPricePerMillion).toBeCloseTo(3.3, 9);
+    expect(sonnet.tiers).toEqual(MODEL_PRICING['claude-sonnet-4'].tiers);
+    expect(sonnet.maxOutputTokens).toBe(64000);
+    expect(sonnet.contextWindow).toBe(200000);
+    expect(sonnet.source).toBe('community');
+
+    const gemini = pricing['gemini-2.5-pro'];
+    expect(gemini.functionCalling).toBe(true);
+    expect(gemini.structuredOutput).toBe(true);
+    expect(gemini.tiers).toHaveLength(1);
+  });
+
+  it('lets listed community fields win, including explicit false flags', async () => {
+    const pricing = mergePricing(
+      await community({
+        'gpt-4o': { input_cost_per_token: 2.5e-6, output_cost_per_token: 1e-5, max_output_tokens: 8192, supports_function_calling: false },
+      }),
+      MODEL_PRICING
+    );
+    expect(pricing['gpt-4o']).toMatchObject({
+      inputPricePerMillion: 2.5,
+      maxOutputTokens: 8192,
+      functionCalling: false,
+      structuredOutput: true,
+      contextWindow: 128000,
+    });
+  });
+
+  it('defaults the context window for models only the community source lists', async () => {
+    const pricing = mergePricing(await community({ 'deepseek-chat': { input_cost_per_token: 2.7e-7, output_cost_per_token: 1.1e-6 } }), {});
+    expect(pricing['deepseek-chat'].contextWindow).toBe(128000);
+  });
+});
+
+describe('pricing cache', () => {
+  afterEach(() => {
+    delete process.env.AI_TOKENS_CACHE_DIR;
+  });
+
+  // Fresh module state: the fetcher memoizes the loaded table
+  async function loadFetcher(cacheDir: string) {
+    process.env.AI_TOKENS_CACHE_DIR = cacheDir;
+    vi.resetModules();
+    return import('../src/data/pricing-fetcher.js');
+  }
+
+  function mirror(name: string, inputPerToken: number): string {
+    const path = join(dir, name);
+    writeFileSync(path, JSON.stringify({ 'gpt-4o': { input_cost_per_token: inputPerToken, output_cost_per_token: 1e-5 } }));
+    return path;
+  }
+
+  it('records local sources as absolute paths', () => {
+    expect(getPricingUrl('./mirror/prices.json')).toBe(join(process.cwd(), 'mirror/prices.json'));
+    expect(getPricingUrl('https://example.com/prices.json')).toBe('https://example.com/prices.json');
+  });
+
+  it('treats a fresh cache from another source as a miss', async () => {
+    const cacheDir = mkdtempSync(join(tmpdir(), 'ai-tokens-cache-'));
+    const first = mirror('first.json', 1e-6);
+    const second = mirror('second.json', 2e-6);
+
+    let fetcher = await loadFetcher(cacheDir);
+    await fetcher.refreshPricing(MODEL_PRICING, first);
+    expect(fetcher.readPricingCache()!.source).toBe(first);
+
+    fetcher = await loadFetcher(cacheDir);
+    const pricing = await fetcher.getCachedPricing(MODEL_PRICING, { url: second });
+    expect(pricing['gpt-4o'].inputPricePerMillion).toBeCloseTo(2, 9);
+    expect(fetcher.getPricingInfo()).toMatchObject({ origin: 'network', source: second });
+
+    // Same source again: served from the cache
+    fetcher = await loadFetcher(cacheDir);
+    await fetcher.getCachedPricing(MODEL_PRICING, { url: second });
+    expect(fetcher.getPricingInfo()!.origin).toBe('cache');
+  });
+
+  it('falls back to bundled prices offline when the cache is from another source', async () => {
+    const cacheDir = mkdtempSync(join(tmpdir(), 'ai-tokens-cache-'));
+    let fetcher = await loadFetcher(cacheDir);
+    await fetcher.refreshPricing(MODEL_PRICING, mirror('third.json', 3e-6));
+
+    fetcher = await loadFetcher(cacheDir);
+    const pricing = await fetcher.getCachedPricing(MODEL_PRICING, { url: mirror('fourth.json', 4e-6), offline: true });
+    expect(pricing['gpt-4o'].inputPricePerMillion).toBe(MODEL_PRICING['gpt-4o'].inputPricePerMillion);
+    expect(fetcher.getPricingInfo()!.origin).toBe('fallback');
+  });
+});
+
+describe('config overrides', () => {
+  it('does not discount rates the config sets explicitly', () => {
+    const pricing = mergePricing({}, MODEL_PRICING, {
+      models: { 'claude-sonnet-4': { inputPricePerMillion: 2 } },
+      discounts: { anthropic: 50 },
+    });
+    expect(pricing['claude-sonnet-4'].inputPricePerMillion).toBe(2);
+    expect(pricing['claude-sonnet-4'].outputPricePerMillion).toBe(7.5);
+    expect(pricing['claude-sonnet-4'].tiers![0].inputPricePerMillion).toBe(3);
+    expect(pricing['claude-haiku-3-5'].inputPricePerMillion).toBe(0.5);
+  });
+});
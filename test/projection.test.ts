@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { projectSpend } from '../src/core/projection.js';
+
+// gpt-4o-mini: $0.15 in / $0.60 out per million, $0.075 cache reads, 50% batch discount
+const CALL = { inputTokens: 1000 };
+const PER_CALL = 1000 * 0.15e-6 + 500 * 0.6e-6;
+const START = new Date(2025, 0, 15);
+
+describe('projectSpend', () => {
+  it('counts calendar days per month and compounds growth', () => {
+    const projection = projectSpend('', 'gpt-4o-mini', [], 500, CALL, {
+      callsPerDay: 100,
+      growthPercent: 10,
+      months: 3,
+      start: START,
+    });
+
+    expect(projection.months).toEqual([
+      { month: '2025-01', calls: 3100 },
+      { month: '2025-02', calls: 3080 }, // 28 days x 1.1
+      { month: '2025-03', calls: 3751 }, // 31 days x 1.21
+    ]);
+    expect(projection.current.costPerCall).toBeCloseTo(PER_CALL, 12);
+    expect(projection.current.costs[0]).toBeCloseTo(3100 * PER_CALL, 9);
+    expect(projection.current.total).toBeCloseTo((3100 + 3080 + 3751) * PER_CALL, 9);
+  });
+
+  it('blends cache writes and reads by the hit rate', () => {
+    const projection = projectSpend('', 'gpt-4o-mini', [], 500, { ...CALL, cachedPrefix: 800 }, {
+      callsPerDay: 1,
+      cacheHitRate: 0.5,
+      months: 1,
+      start: START,
+    });
+    // Misses bill the prefix at the input rate, hits at the cache-read rate
+    const hit = 800 * 0.075e-6 + 200 * 0.15e-6 + 500 * 0.6e-6;
+    expect(projection.current.costPerCall).toBeCloseTo((PER_CALL + hit) / 2, 12);
+  });
+
+  it('blends the batch share at the batch discount', () => {
+    const projection = projectSpend('', 'gpt-4o-mini', [], 500, CALL, {
+      callsPerDay: 1,
+      batchShare: 0.5,
+      months: 1,
+      start: START,
+    });
+    expect(projection.current.costPerCall).toBeCloseTo(PER_CALL * 0.75, 12);
+  });
+
+  it('ranks alternatives by total and skips models that cannot take the request', () => {
+    const projection = projectSpend('', 'gpt-4o', ['claude-haiku-3-5', 'gpt-4o-mini', 'gpt-4'], 500, { inputTokens: 10000 }, {
+      callsPerDay: 10,
+      months: 2,
+      start: START,
+    });
+    expect(projection.alternatives.map((alt) => alt.model)).toEqual(['gpt-4o-mini', 'claude-haiku-3-5']);
+    expect(projection.skipped.map((skip) => skip.model)).toEqual(['gpt-4']);
+  });
+
+  it('validates its assumptions', () => {
+    const project = (options: object, cost: object = CALL) =>
+      projectSpend('', 'gpt-4o-mini', [], 500, cost, { callsPerDay: 1, ...options });
+    expect(() => project({ growthPercent: -100 })).toThrow('Growth');
+    expect(() => project({ batchShare: 1.5 })).toThrow('between 0% and 100%');
+    expect(() => project({ cacheHitRate: 0.5 })).toThrow('cached prefix');
+    expect(() => project({ callsPerDay: NaN })).toThrow('Calls per day');
+  });
+});
@@ -0,0 +1,136 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createCostGuardProxy, type ProxyOptions, type ProxyRecord } from '../src/server/proxy.js';
+
+/**
+ * Stub provider API: answers with a fixed usage block and counts the calls that reach it
+ */
+let upstreamCalls = 0;
+let rateLimited = false;
+const upstream = createServer((req, res) => {
+  upstreamCalls++;
+  req.resume();
+  req.on('end', () => {
+    if (rateLimited) {
+      res.writeHead(429, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { type: 'rate_limit_error', message: 'Slow down' } }));
+      return;
+    }
+    const body = req.url === '/v1/messages'
+      ? { type: 'message', model: 'claude-sonnet-4-20250514', usage: { input_tokens: 20, output_tokens: 10 } }
+      : { object: 'chat.completion', model: 'gpt-4o-2024-08-06', usage: { prompt_tokens: 20, completion_tokens: 10 } };
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+});
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+const proxies: Server[] = [];
+async function startProxy(options: Omit<ProxyOptions, 'upstream'>): Promise<string> {
+  const proxy = createCostGuardProxy({ upstream: upstreamUrl, ...options });
+  proxies.push(proxy);
+  return listen(proxy);
+}
+
+let upstreamUrl: string;
+beforeAll(async () => {
+  upstreamUrl = await listen(upstream);
+});
+afterAll(() => {
+  proxies.forEach((proxy) => proxy.close());
+  upstream.close();
+});
+
+const post = (base: string, path: string, body: unknown) =>
+  fetch(base + path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+const messages = [{ role: 'user', content: 'Say hi' }];
+
+describe('cost guard proxy', () => {
+  it('prices dated snapshot model IDs and records the actual spend', async () => {
+    const records: ProxyRecord[] = [];
+    const proxy = await startProxy({ maxRequestCost: 1, onRecord: (record) => records.push(record) });
+
+    const anthropic = await post(proxy, '/v1/messages', { model: 'claude-sonnet-4-20250514', max_tokens: 100, messages });
+    expect(anthropic.status).toBe(200);
+    expect(Number(anthropic.headers.get('x-ai-tokens-estimated-cost'))).toBeGreaterThan(0);
+    expect((await anthropic.json()).usage.output_tokens).toBe(10);
+
+    const openai = await post(proxy, '/v1/chat/completions', { model: 'gpt-4o-2024-08-06', max_tokens: 100, messages });
+    expect(openai.status).toBe(200);
+    await openai.text();
+
+    expect(records.map((record) => record.model)).toEqual(['claude-sonnet-4-20250514', 'gpt-4o-2024-08-06']);
+    // claude-sonnet-4: $3 in / $15 out per million
+    expect(records[0].actualCost).toBeCloseTo((20 * 3 + 10 * 15) / 1_000_000, 12);
+  });
+
+  it('rejects requests over the per-request limit with a 402 before they reach upstream', async () => {
+    const proxy = await startProxy({ maxRequestCost: 0.001 });
+    const before = upstreamCalls;
+
+    const response = await post(proxy, '/v1/messages', { model: 'claude-sonnet-4-20250514', max_tokens: 4000, messages });
+    expect(response.status).toBe(402);
+    const body = await response.json();
+    expect(body.type).toBe('error');
+    expect(body.error.type).toBe('cost_limit_exceeded');
+    expect(upstreamCalls).toBe(before);
+  });
+
+  it('rejects requests that would exceed the rolling spend', async () => {
+    const proxy = await startProxy({ maxSpend: 0.0017 });
+    const request = { model: 'gpt-4o-2024-08-06', max_tokens: 100, messages };
+
+    const first = await post(proxy, '/v1/chat/completions', request);
+    expect(first.status).toBe(200);
+    await first.text();
+    // gpt-4o: ~$0.00155 estimated per call, $0.00025 actually spent; the second would pass $0.0017
+    const response = await post(proxy, '/v1/chat/completions', request);
+    expect(response.status).toBe(402);
+    expect((await response.json()).error.code).toBe('budget_exceeded');
+  });
+
+  it('does not count upstream errors without usage against the rolling spend', async () => {
+    const proxy = await startProxy({ maxSpend: 0.0017 });
+    const request = { model: 'gpt-4o-2024-08-06', max_tokens: 100, messages };
+
+    rateLimited = true;
+    try {
+      for (let i = 0; i < 3; i++) {
+        const response = await post(proxy, '/v1/chat/completions', request);
+        expect(response.status).toBe(429);
+        await response.text();
+      }
+    } finally {
+      rateLimited = false;
+    }
+
+    const response = await post(proxy, '/v1/chat/completions', request);
+    expect(response.status).toBe(200);
+    await response.text();
+  });
+
+  it('does not add reasoning tokens on top of max_completion_tokens', async () => {
+    const proxy = await startProxy({});
+    const response = await post(proxy, '/v1/chat/completions', { model: 'gpt-5', max_completion_tokens: 1000, messages });
+    await response.text();
+
+    // gpt-5: $10 per million output; input is a handful of tokens
+    const estimate = Number(response.headers.get('x-ai-tokens-estimated-cost'));
+    expect(estimate).toBeGreaterThanOrEqual(0.01);
+    expect(estimate).toBeLessThan(0.0102);
+  });
+
+  it('refuses unknown models rather than letting them through unchecked', async () => {
+    const proxy = await startProxy({});
+    const response = await post(proxy, '/v1/chat/completions', { model: 'no-such-model-2024-01-01', messages });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe('cost_estimate_failed');
+  });
+});
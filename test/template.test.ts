@@ -0,0 +1,86 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { estimateTemplate, loadDataset, parseCsv, renderTemplate } from '../src/core/template.js';
+import { calculateCost } from '../src/core/cost-calculator.js';
+
+describe('renderTemplate', () => {
+  it('fills variables, including dotted paths', () => {
+    const { text, missing } = renderTemplate('Hi {{ name }} from {{user.city}}', { name: 'Ada', user: { city: 'London' } });
+    expect(text).toBe('Hi Ada from London');
+    expect(missing).toEqual([]);
+  });
+
+  it('renders missing variables empty and reports them', () => {
+    expect(renderTemplate('[{{a}}|{{b}}]', { a: 1, b: null })).toEqual({ text: '[1|]', missing: ['b'] });
+  });
+
+  it('escapes values for JSON strings', () => {
+    const { text } = renderTemplate('{"q": "{{q}}"}', { q: 'say "hi"\nnow' }, { json: true });
+    expect(JSON.parse(text)).toEqual({ q: 'say "hi"\nnow' });
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quotes, escaped quotes, newlines in fields and CRLF', () => {
+    const rows = parseCsv('\uFEFFid,text\r\n1,"a, ""quoted""\nvalue"\r\n2,plain\r\n');
+    expect(rows).toEqual([
+      { id: '1', text: 'a, "quoted"\nvalue' },
+      { id: '2', text: 'plain' },
+    ]);
+  });
+
+  it('fills short rows and skips blank lines', () => {
+    expect(parseCsv('a,b\n\n1\n')).toEqual([{ a: '1', b: '' }]);
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('loadDataset', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'ai-tokens-'));
+
+  it('reads JSONL and reports bad lines', () => {
+    const good = join(dir, 'rows.jsonl');
+    writeFileSync(good, '{"a":1}\n\n{"a":2}\n');
+    expect(loadDataset(good)).toEqual([{ a: 1 }, { a: 2 }]);
+
+    const bad = join(dir, 'bad.jsonl');
+    writeFileSync(bad, '{"a":1}\n[1]\n');
+    expect(() => loadDataset(bad)).toThrow('bad.jsonl:2');
+  });
+
+  it('requires a JSON array of objects', () => {
+    const path = join(dir, 'rows.json');
+    writeFileSync(path, '{"a":1}');
+    expect(() => loadDataset(path)).toThrow('array of objects');
+  });
+});
+
+describe('estimateTemplate', () => {
+  it('prices every rendered row', () => {
+    const rows = [{ q: 'short' }, { q: 'a somewhat longer question about tokens' }, {}];
+    const report = estimateTemplate('Answer: {{q}}', rows, 'gpt-4o-mini', 100);
+
+    const expected = ['Answer: short', 'Answer: a somewhat longer question about tokens', 'Answer: '].map(
+      (text) => calculateCost(text, 'gpt-4o-mini', 100).totalCost
+    );
+    expect(report.rows).toBe(3);
+    expect(report.totalCost).toBeCloseTo(expected.reduce((a, b) => a + b, 0), 12);
+    expect(report.cost.max).toBeCloseTo(Math.max(...expected), 12);
+    expect(report.missingVariables).toEqual({ q: 1 });
+    expect(report.overflows).toEqual([]);
+  });
+
+  it('reports rows that overflow the context window', () => {
+    const report = estimateTemplate('{{q}}', [{ q: 'word '.repeat(9000) }], 'gpt-4', 100);
+    expect(report.overflows.map((o) => o.row)).toEqual([1]);
+  });
+
+  it('rejects an empty dataset', () => {
+    expect(() => estimateTemplate('{{q}}', [], 'gpt-4o')).toThrow('no rows');
+  });
+});
@@ -0,0 +1,110 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { watchFiles, type FileWatcher } from '../src/core/watcher.js';
+
+/**
+ * Simulate Linux before Node 20, where fs.watch rejects { recursive: true }
+ */
+const platform = vi.hoisted(() => ({ recursive: true }));
+vi.mock('fs', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('fs')>();
+  const watch = (...args: Parameters<typeof fs.watch>) => {
+    const options = args[1] as { recursive?: boolean } | undefined;
+    if (options?.recursive && !platform.recursive) {
+      throw Object.assign(new TypeError('The feature watch recursively is unavailable'), {
+        code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM',
+      });
+    }
+    return fs.watch(...args);
+  };
+  return { ...fs, watch, default: { ...fs, watch } };
+});
+
+let dir: string;
+let watcher: FileWatcher | undefined;
+afterEach(() => {
+  platform.recursive = true;
+  watcher?.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Resolve with the next onChange call, or fail after a second
+ */
+function nextChange(patterns: string[]): Promise<{ files: string[]; changed: string[] }> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error('No change reported')), 1000);
+    watcher = watchFiles(
+      patterns,
+      (files, changed) => {
+        clearTimeout(timeout);
+        resolve({ files, changed });
+      },
+      { cwd: dir, debounceMs: 20 }
+    );
+  });
+}
+
+describe('watchFiles', () => {
+  it('picks up files added in new subdirectories under a glob root', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'ai-tokens-watch-'));
+    mkdirSync(join(dir, 'docs'));
+    writeFileSync(join(dir, 'docs', 'a.md'), 'first');
+
+    const change = nextChange(['docs/**/*.md']);
+    expect(watcher!.files).toEqual([join(dir, 'docs', 'a.md')]);
+    mkdirSync(join(dir, 'docs', 'new'));
+    await new Promise((resolve) => setTimeout(resolve, 100)); // Let the directory event settle first
+    writeFileSync(join(dir, 'docs', 'new', 'b.md'), 'second');
+
+    const { files, changed } = await change;
+    expect(files).toEqual([join(dir, 'docs', 'a.md'), join(dir, 'docs', 'new', 'b.md')]);
+    expect(changed).toEqual([join(dir, 'docs', 'new', 'b.md')]);
+  });
+
+  it('ignores files under the root that do not match the pattern', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'ai-tokens-watch-'));
+    mkdirSync(join(dir, 'docs'));
+    writeFileSync(join(dir, 'docs', 'a.md'), 'first');
+
+    const change = nextChange(['docs/**/*.md']);
+    writeFileSync(join(dir, 'docs', 'notes.txt'), 'not markdown');
+    writeFileSync(join(dir, 'docs', 'a.md'), 'edited');
+
+    expect((await change).changed).toEqual([join(dir, 'docs', 'a.md')]);
+  });
+
+  it('falls back to a watcher per directory where recursive watching is unavailable', async () => {
+    platform.recursive = false;
+    dir = mkdtempSync(join(tmpdir(), 'ai-tokens-watch-'));
+    mkdirSync(join(dir, 'docs'));
+    writeFileSync(join(dir, 'docs', 'a.md'), 'first');
+
+    const change = nextChange(['docs/**/*.md']);
+    mkdirSync(join(dir, 'docs', 'new'));
+    await new Promise((resolve) => setTimeout(resolve, 100)); // The new directory is watched after this flush
+    writeFileSync(join(dir, 'docs', 'new', 'b.md'), 'second');
+
+    expect((await change).changed).toEqual([join(dir, 'docs', 'new', 'b.md')]);
+  });
+
+  it('drops events under ignored directories', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'ai-tokens-watch-'));
+    mkdirSync(join(dir, 'node_modules'));
+    writeFileSync(join(dir, 'a.md'), 'first');
+
+    // Constant writes under node_modules would otherwise keep resetting the debounce
+    const change = nextChange(['**/*.md']);
+    let writes = 0;
+    const noise = setInterval(() => writeFileSync(join(dir, 'node_modules', 'noise.md'), String(writes++)), 5);
+    writeFileSync(join(dir, 'a.md'), 'edited');
+
+    try {
+      expect((await change).changed).toEqual([join(dir, 'a.md')]);
+    } finally {
+      clearInterval(noise);
+    }
+  });
+});